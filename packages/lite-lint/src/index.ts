@@ -184,7 +184,7 @@ const ambientNamePattern = /(Http|Transport|Clock|Storage|Random|Timer|Poller|Ro
 const ambientCalls = new Set(["fetch", "setTimeout", "setInterval", "clearTimeout", "clearInterval"])
 const ambientObjects = new Set(["window", "document", "localStorage", "sessionStorage", "crypto"])
 const mockCalls = new Set(["mock", "doMock", "spyOn"])
-const tagExecutorModes = new Set(["required", "optional", "all"])
+const tagExecutorModes = new Set(["required", "optional", "all", "pick"])
 const nodeBuiltinModulePattern = /^(?:node:)?(?:fs|fs\/promises|child_process)$/
 const nakedGlobalDefaultAllow = new Set(["JSON", "Object", "Array", "String", "Number", "structuredClone", "URL", "Math"])
 const containerCreators = new Set(["Map", "Set"])
@@ -648,6 +648,16 @@ describe("lite lint scanner", () => {
       })
     `)).toEqual([])
 
+    expect(ids(`
+      import { atom, tags } from "@pumped-fn/lite"
+
+      const home = atom({
+        name: "home",
+        deps: { route: tags.pick(routeTag, server("admin")) },
+        factory: (ctx) => ctx.data.seekTag(routeTag),
+      })
+    `)).toEqual([])
+
     expect(ids(`
       import { atom } from "@pumped-fn/lite"
 
@@ -121,18 +121,19 @@ function extension(options?: Logging.Options): Lite.Extension {
       registerContextClose(ctx, value, current)
 
       const source = current.source ?? getExecName(target, ctx)
+      const fields = ctx.attempt === undefined ? undefined : { attempt: ctx.attempt }
       if (current.flow === "all") {
-        write(current, "debug", "flow.start", undefined, source)
+        write(current, "debug", "flow.start", fields, source)
       }
 
       try {
         const output = await run()
         if (current.flow === "all") {
-          write(current, "debug", "flow.success", undefined, source)
+          write(current, "debug", "flow.success", fields, source)
         }
         return output
       } catch (error) {
-        write(current, "error", "flow.error", { error: mapError(error) }, source)
+        write(current, "error", "flow.error", { ...fields, error: mapError(error) }, source)
         throw error
       }
     },
@@ -150,6 +150,34 @@ describe("logging extension", () => {
     expect(sink.records()[3]?.fields?.["error"]).toMatchObject({ name: "Error", message: "bad" })
   })
 
+  it("records the attempt number of retried flows", async () => {
+    const sink = logging.memory()
+    const flaky = flow({
+      name: "flaky",
+      faults: typed<{ kind: "busy" }>(),
+      retry: { attempts: 2, delayMs: 0, jitter: 0 },
+      factory: (ctx) => {
+        if (ctx.attempt === 1) return ctx.fail({ kind: "busy" })
+        return "done"
+      },
+    })
+    const scope = createScope({
+      extensions: [logging.extension()],
+      tags: [logging.runtime({ sinks: [sink], level: "debug", flow: "all" })],
+    })
+    await scope.ready
+
+    await expect(scope.run({ flow: flaky })).resolves.toBe("done")
+
+    expect(sink.records().map((record) => [record.message, record.fields?.attempt])).toEqual([
+      ["flow.start", 1],
+      ["flow.error", 1],
+      ["flow.start", 2],
+      ["flow.success", 2],
+    ])
+    await scope.dispose()
+  })
+
   it("supports error-only flow logging, memory subscribers, and the no-sink path", async () => {
     const sink = logging.memory()
     const observed: Logging.Record[] = []
@@ -120,6 +120,7 @@ function baseAttributes(event: Observability.Event): Attributes {
     "pumped.name": event.name,
     "pumped.at": event.at,
   }
+  if (event.attempt !== undefined) attributes["pumped.attempt"] = event.attempt
   if (event.startedAt !== undefined) attributes["pumped.started_at"] = event.startedAt
   if (event.durationMs !== undefined) attributes["pumped.duration_ms"] = event.durationMs
   if ("input" in event) assignSerialized(attributes, "pumped.input", event.input)
@@ -232,6 +232,18 @@ describe("otel sink", () => {
     expect(sink.pending()).toBe(0)
   })
 
+  it("sets the attempt attribute only for retried executions", () => {
+    const recorded = recorder()
+    const sink = otel.sink({ tracer: recorded.tracer })
+
+    sink.emit({ id: "retry", phase: "start", kind: "flow", name: "retry", attempt: 2, at: 1 })
+    sink.emit({ id: "once", phase: "start", kind: "flow", name: "once", at: 2 })
+    sink.close?.()
+
+    expect(recorded.spans[0]?.initial?.["pumped.attempt"]).toBe(2)
+    expect(recorded.spans[1]?.initial).not.toHaveProperty("pumped.attempt")
+  })
+
   it("uses the default OpenTelemetry tracer when no tracer is passed", () => {
     const sink = otel.sink()
 
@@ -18,6 +18,7 @@ export namespace Observability {
     readonly phase: Phase
     readonly kind: Kind
     readonly name: string
+    readonly attempt?: number
     readonly at: number
     readonly startedAt?: number
     readonly durationMs?: number
@@ -227,6 +228,7 @@ async function trace<T>(
   const id = current.id()
   const parentId = ctx?.data.seek(spanKey) as string | undefined
   ctx?.data.set(spanKey, id)
+  const attempt = ctx?.attempt
   const startedAt = current.now()
   const start = withInput(current, {
     id,
@@ -234,6 +236,7 @@ async function trace<T>(
     phase: "start",
     kind,
     name,
+    attempt,
     at: startedAt,
   }, input)
 
@@ -248,6 +251,7 @@ async function trace<T>(
       phase: "success",
       kind,
       name,
+      attempt,
       at,
       startedAt,
       durationMs: at - startedAt,
@@ -262,6 +266,7 @@ async function trace<T>(
       phase: "error",
       kind,
       name,
+      attempt,
       at,
       startedAt,
       durationMs: at - startedAt,
@@ -372,6 +377,7 @@ function mapError(error: unknown): Observability.ErrorInfo {
 
 function getResolveName(event: Lite.ResolveEvent): string {
   if (event.kind === "resource") return event.target.name ?? "<anonymous>"
+  if (event.target.name) return event.target.name
   const name = event.target.factory.name
   return name && name !== "factory" ? name : "<anonymous>"
 }
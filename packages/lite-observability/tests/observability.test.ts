@@ -154,6 +154,12 @@ describe("observability extension", () => {
     const anonymous = atom({
       factory: () => "anonymous",
     })
+    const named = atom({
+      name: "config",
+      factory: function value() {
+        return "named"
+      },
+    })
     const tx = resource({
       name: "tx",
       ownership: "current",
@@ -179,6 +185,7 @@ describe("observability extension", () => {
 
     await scope.resolve(value)
     await scope.resolve(anonymous)
+    await scope.resolve(named)
     const ctx = scope.createContext()
     expect(await ctx.exec({ flow: load })).toEqual(["tx", "fn"])
     await ctx.close()
@@ -188,6 +195,8 @@ describe("observability extension", () => {
       ["atom", "value", "success"],
       ["atom", "<anonymous>", "start"],
       ["atom", "<anonymous>", "success"],
+      ["atom", "config", "start"],
+      ["atom", "config", "success"],
       ["context", "context", "start"],
       ["flow", "load", "start"],
       ["resource", "tx", "start"],
@@ -594,6 +603,37 @@ describe("parent linking", () => {
     expect(outerStart!.parentId).toBe(contextStart!.id)
     expect(innerStart!.parentId).toBe(outerStart!.id)
 
+    await scope.dispose()
+  })
+  it("retry attempts emit sibling spans numbered by attempt", async () => {
+    const sink = observability.memory()
+    const flaky = flow({
+      name: "flaky",
+      faults: typed<{ kind: "busy" }>(),
+      retry: { attempts: 2, delayMs: 0, jitter: 0 },
+      factory: (ctx) => {
+        if (ctx.attempt === 1) return ctx.fail({ kind: "busy" })
+        return "done"
+      },
+    })
+    const scope = createScope({
+      extensions: [observability.extension()],
+      tags: [observability.runtime({ sinks: [sink] })],
+    })
+    const ctx = scope.createContext()
+
+    await ctx.exec({ flow: flaky })
+
+    const flowEvents = sink.events().filter((event) => event.kind === "flow")
+    expect(flowEvents.map((event) => [event.phase, event.attempt])).toEqual([
+      ["start", 1],
+      ["error", 1],
+      ["start", 2],
+      ["success", 2],
+    ])
+    expect(flowEvents[0]!.parentId).toBe(flowEvents[2]!.parentId)
+    expect(flowEvents[0]!.id).not.toBe(flowEvents[2]!.id)
+
     await scope.dispose()
   })
 })
@@ -3,21 +3,27 @@ import { normalizeTags, registerAtomToTags } from "./tag"
 import { warmDepsGraph } from "./deps-graph"
 
 export interface AtomConfig<T, D extends Record<string, Lite.Dependency>> {
+  name?: string
   deps?: D
   factory: Lite.AtomFactory<T, D>
   tags?: Lite.TagInput
   keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: T, next: T) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<T>
 }
 
 /**
  * Creates a long-lived dependency that can be resolved and reused within a scope.
  *
- * @param config - Configuration object containing factory function, optional dependencies, and tags
+ * @param config - Configuration object containing factory function, optional name, dependencies, tags, `eq`, `refresh`, and `persist`
  * @returns An Atom instance that can be resolved to produce a value of type T
  *
  * @example
  * ```typescript
  * const db = atom({
+ *   name: "db",
  *   factory: async (ctx) => {
  *     const pool = await createDatabase()
  *     ctx.cleanup((pool) => pool.end(), pool)
@@ -27,30 +33,50 @@ export interface AtomConfig<T, D extends Record<string, Lite.Dependency>> {
  * ```
  */
 export function atom<T>(config: {
+  name?: string
   deps?: undefined
   factory: (ctx: Lite.ResolveContext) => MaybePromise<T>
   tags?: Lite.TagInput
   keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
 }): Lite.Atom<T>
 
 export function atom<
   T,
   const D extends Record<string, Lite.AtomDependency>,
 >(config: {
+  name?: string
   deps: D
   factory: (ctx: Lite.ResolveContext, deps: Lite.InferDeps<D>) => MaybePromise<T>
   tags?: Lite.TagInput
   keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
 }): Lite.Atom<T>
 
 export function atom(config: any): Lite.Atom<any> {
+  if (config.serializable && !config.name) throw new Error("Serializable atoms require a name")
+  if (config.refresh?.intervalMs !== undefined && !(config.refresh.intervalMs > 0)) {
+    throw new Error("Atom refresh intervalMs must be greater than 0")
+  }
+  if (config.persist && config.persist.key === undefined && !config.name) throw new Error("Persisted atoms require a name or persist.key")
   const normalizedTags = normalizeTags(config.tags)
   const atomInstance: Lite.Atom<any> = {
     [atomSymbol]: true,
+    name: config.name,
     factory: config.factory,
     deps: config.deps,
     tags: normalizedTags,
     keepAlive: config.keepAlive,
+    serializable: config.serializable,
+    eq: config.eq,
+    refresh: config.refresh,
+    persist: config.persist,
   }
 
   if (normalizedTags?.length) {
@@ -95,6 +121,8 @@ export function isAtom(value: unknown): value is Lite.Atom<unknown> {
  *     the dep resolves to a new value. Resource deps release the dependent resource on value
  *     change and re-resolve lazily on the next access. Flow deps do not support watch.
  *   - `eq` — custom equality function `(a: T, b: T) => boolean`; only used with `watch: true`.
+ *   - `mapFaults` — flow deps only; translates the child's declared faults into the depending
+ *     flow's faults. Returning `undefined` rejects with a `FlowFault` naming both flows.
  * @returns A ControllerDep that resolves to a Controller for the Atom or Resource
  *
  * @example
@@ -170,14 +198,19 @@ export function controller<T>(
   options: { resolve?: never; watch?: never; eq?: never }
 ): Lite.NonWatchResourceControllerDep<T>
 
-export function controller<Output, Input, Yield>(
-  flow: Lite.Flow<Output, Input, any, Yield>
-): Lite.FlowControllerDep<Output, Input, Yield>
+export function controller<Output, Input, Yield, Fault>(
+  flow: Lite.Flow<Output, Input, Fault, Yield>
+): Lite.FlowControllerDep<Output, Input, Yield, Fault>
+
+export function controller<Output, Input, Yield, Fault, Mapped>(
+  flow: Lite.Flow<Output, Input, Fault, Yield>,
+  options: Lite.FlowControllerOptions<Input> & { mapFaults: (fault: Fault) => Mapped }
+): Lite.MappedFlowControllerDep<Output, Input, Yield, Fault, Mapped>
 
-export function controller<Output, Input, Yield>(
-  flow: Lite.Flow<Output, Input, any, Yield>,
+export function controller<Output, Input, Yield, Fault>(
+  flow: Lite.Flow<Output, Input, Fault, Yield>,
   options: Lite.FlowControllerOptions<Input>
-): Lite.FlowControllerDep<Output, Input, Yield>
+): Lite.FlowControllerDep<Output, Input, Yield, Fault>
 
 export function controller<T>(
   target: Lite.Atom<T> | Lite.Resource<T> | Lite.Flow<any, any, any, any>,
@@ -191,6 +224,7 @@ export function controller<T>(
       name: flowOptions?.name,
       tags: normalizeTags(flowOptions?.tags),
       key: flowOptions?.key,
+      mapFaults: (flowOptions as { mapFaults?: (fault: unknown) => unknown } | undefined)?.mapFaults,
     }
   }
 
@@ -0,0 +1,99 @@
+import { type Lite, type MaybePromise } from "./types"
+import { flow } from "./flow"
+
+/**
+ * Creates a flow whose concurrent executions are coalesced. Calls issued within `windowMs`
+ * (default: the current tick) from the same execution context boundary are deduped by `key`
+ * and handed to a single `load` run, which returns one `ExecResult` per distinct input.
+ * Each caller still runs in its own child context through `wrapExec`; a `fault` result
+ * rejects that caller with the batched flow's `FlowFault`.
+ *
+ * @param config - Input `parse`, optional `key` (default `String(input)`), `windowMs`, `maxBatchSize`, deps, and `load`
+ * @returns A flow executed like any other; its `batch.loader` flow runs once per batch
+ *
+ * @example
+ * ```typescript
+ * import { batchedFlow, typed } from "@pumped-fn/lite"
+ *
+ * const userById = batchedFlow({
+ *   name: "userById",
+ *   parse: typed<string>(),
+ *   faults: typed<{ kind: "not-found" }>(),
+ *   deps: { db },
+ *   load: async (ctx, { db }) => {
+ *     const rows = await db.users.findMany(ctx.input)
+ *     return ctx.input.map((id) => {
+ *       const row = rows.find((user) => user.id === id)
+ *       return row ? { ok: true, value: row } : { ok: false, fault: { kind: "not-found" } }
+ *     })
+ *   },
+ * })
+ *
+ * const [ada, bob] = await Promise.all([
+ *   ctx.exec({ flow: userById, input: "ada" }),
+ *   ctx.exec({ flow: userById, input: "bob" }),
+ * ])
+ * ```
+ */
+export function batchedFlow<Output, Input, Fault = never>(config: {
+  name?: string
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input> | Lite.Typed<Input>
+  deps?: undefined
+  faults?: Lite.Typed<Fault>
+  key?: (input: NoInfer<Input>) => string
+  windowMs?: number
+  maxBatchSize?: number
+  tags?: Lite.TagInput
+  load: (
+    ctx: Lite.ExecutionContext & { readonly input: readonly NoInfer<Input>[] }
+  ) => MaybePromise<readonly Lite.ExecResult<Output, NoInfer<Fault>>[]>
+}): Lite.Flow<Output, Input, Fault>
+
+export function batchedFlow<
+  Output,
+  Input,
+  const D extends Record<string, Lite.ExecutionDependency>,
+  Fault = never,
+>(config: {
+  name?: string
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input> | Lite.Typed<Input>
+  deps: D
+  faults?: Lite.Typed<Fault>
+  key?: (input: NoInfer<Input>) => string
+  windowMs?: number
+  maxBatchSize?: number
+  tags?: Lite.TagInput
+  load: (
+    ctx: Lite.ExecutionContext & { readonly input: readonly NoInfer<Input>[] },
+    deps: Lite.InferDeps<D>
+  ) => MaybePromise<readonly Lite.ExecResult<Output, NoInfer<Fault>>[]>
+}): Lite.Flow<Output, Input, Fault>
+
+export function batchedFlow(config: any): Lite.Flow<any, any, any, any> {
+  const name = config.name ?? "anonymous"
+  if (config.maxBatchSize !== undefined && !(config.maxBatchSize >= 1)) {
+    throw new TypeError(`batchedFlow "${name}" expects maxBatchSize to be at least 1`)
+  }
+  const loader = flow({
+    name: config.name === undefined ? undefined : `${config.name}.load`,
+    deps: config.deps ?? {},
+    factory: (ctx, deps) => config.load(ctx, deps),
+  }) as unknown as Lite.Flow<readonly Lite.ExecResult<unknown, unknown>[], readonly unknown[], any>
+  const batched = flow({
+    name: config.name,
+    parse: config.parse,
+    tags: config.tags,
+    factory: (): never => {
+      throw new Error(`batchedFlow "${name}" runs through its batch loader; execute it with ctx.exec()`)
+    },
+  })
+  return {
+    ...batched,
+    batch: {
+      key: config.key ?? String,
+      windowMs: config.windowMs,
+      maxBatchSize: config.maxBatchSize,
+      loader,
+    },
+  }
+}
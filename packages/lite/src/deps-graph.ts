@@ -51,3 +51,50 @@ export function classifyDeps(deps: Record<string, Lite.Dependency>): DepsGraph {
 export function warmDepsGraph(deps: Record<string, Lite.Dependency>): void {
   classifyDeps(deps)
 }
+
+export type CycleNode = Lite.Atom<unknown> | Lite.Resource<unknown>
+
+/**
+ * Walks atom and resource deps from `start` and returns the first cycle as the path of
+ * deps as written, ending with the node that closes it. Nodes proven acyclic are added
+ * to `acyclic`. `redirect` maps a dep to the node that resolves in its place under
+ * presets, or null when a preset value ends the walk.
+ */
+export function findDependencyCycle(
+  start: CycleNode,
+  acyclic: WeakSet<CycleNode>,
+  redirect: (node: CycleNode) => CycleNode | null,
+): CycleNode[] | null {
+  const stack: CycleNode[] = []
+  const written: CycleNode[] = []
+
+  function visit(node: CycleNode, as: CycleNode): CycleNode[] | null {
+    if (acyclic.has(node)) return null
+    const index = stack.indexOf(node)
+    if (index >= 0) {
+      const cycle = [...written.slice(index), as]
+      return as === node ? cycle : [...cycle, node]
+    }
+    stack.push(node)
+    written.push(as)
+    if (node.deps) {
+      const graph = classifyDeps(node.deps)
+      const children: CycleNode[] = graph.atoms.map(([, atom]) => atom)
+      for (const [, ctrl] of graph.controllers) {
+        if (ctrl.resolve) children.push((ctrl.atom ?? ctrl.resource)!)
+      }
+      for (const [, resource] of graph.resources) children.push(resource)
+      for (const child of children) {
+        const next = redirect(child)
+        const cycle = next && visit(next, child)
+        if (cycle) return cycle
+      }
+    }
+    stack.pop()
+    written.pop()
+    acyclic.add(node)
+    return null
+  }
+
+  return visit(start, start)
+}
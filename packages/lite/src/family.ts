@@ -0,0 +1,166 @@
+import { atomFamilySymbol, type Lite, type MaybePromise } from "./types"
+import { atom } from "./atom"
+
+export interface AtomFamilyConfig<T, Param, D extends Record<string, Lite.AtomDependency>> {
+  name?: string
+  key?: (param: Param) => string
+  deps?: D
+  factory: (ctx: Lite.ResolveContext, deps: Lite.InferDeps<D>, param: Param) => MaybePromise<T>
+  tags?: Lite.TagInput
+  keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
+}
+
+/**
+ * Creates a keyed set of atoms. `family(param)` returns a stable atom per key, so each key is
+ * resolved, cached, invalidated, cleaned up, and garbage collected on its own within a scope.
+ *
+ * @param config - Factory receiving the param, optional `key` derivation (default `String(param)`), and the options
+ *   `atom()` takes; each member's name and `persist.key` get a `(key)` suffix
+ * @returns A callable family; `family.keys(scope)` lists keys with a live entry in that scope
+ *
+ * @example
+ * ```typescript
+ * import { atomFamily } from "@pumped-fn/lite"
+ *
+ * const pool = atomFamily({
+ *   name: "pool",
+ *   factory: (ctx, tenant: string) => {
+ *     const conn = { tenant, close: () => {} }
+ *     ctx.cleanup(() => conn.close())
+ *     return conn
+ *   },
+ * })
+ *
+ * const conn = await scope.resolve(pool("acme"))
+ * scope.controller(pool("acme")).invalidate()
+ * ```
+ */
+export function atomFamily<T, Param extends string | number>(config: {
+  name?: string
+  key?: (param: Param) => string
+  deps?: undefined
+  factory: (ctx: Lite.ResolveContext, param: Param) => MaybePromise<T>
+  tags?: Lite.TagInput
+  keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
+}): Lite.AtomFamily<T, Param>
+
+export function atomFamily<T, Param>(config: {
+  name?: string
+  key: (param: Param) => string
+  deps?: undefined
+  factory: (ctx: Lite.ResolveContext, param: Param) => MaybePromise<T>
+  tags?: Lite.TagInput
+  keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
+}): Lite.AtomFamily<T, Param>
+
+export function atomFamily<
+  T,
+  Param extends string | number,
+  const D extends Record<string, Lite.AtomDependency>,
+>(config: {
+  name?: string
+  key?: (param: Param) => string
+  deps: D
+  factory: (ctx: Lite.ResolveContext, deps: Lite.InferDeps<D>, param: Param) => MaybePromise<T>
+  tags?: Lite.TagInput
+  keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
+}): Lite.AtomFamily<T, Param>
+
+export function atomFamily<
+  T,
+  Param,
+  const D extends Record<string, Lite.AtomDependency>,
+>(config: {
+  name?: string
+  key: (param: Param) => string
+  deps: D
+  factory: (ctx: Lite.ResolveContext, deps: Lite.InferDeps<D>, param: Param) => MaybePromise<T>
+  tags?: Lite.TagInput
+  keepAlive?: boolean
+  serializable?: boolean
+  eq?: (prev: NoInfer<T>, next: NoInfer<T>) => boolean
+  refresh?: Lite.AtomRefreshPolicy
+  persist?: Lite.AtomPersistPolicy<NoInfer<T>>
+}): Lite.AtomFamily<T, Param>
+
+export function atomFamily(config: any): Lite.AtomFamily<any, any> {
+  if (config.serializable && !config.name) throw new Error("Serializable atom families require a name")
+  if (config.persist && config.persist.key === undefined && !config.name) {
+    throw new Error("Persisted atom families require a name or persist.key")
+  }
+  const members = new Map<string, WeakRef<Lite.Atom<unknown>>>()
+  const collected = new FinalizationRegistry<string>((key) => {
+    if (!members.get(key)?.deref()) members.delete(key)
+  })
+  const live = new WeakMap<Lite.Scope, Set<string>>()
+  const keyOf: (param: unknown) => string = config.key ?? String
+
+  function track(ctx: Lite.ResolveContext, key: string): void {
+    let keys = live.get(ctx.scope)
+    if (!keys) live.set(ctx.scope, keys = new Set())
+    keys.add(key)
+    ctx.cleanup(() => { keys.delete(key) })
+  }
+
+  function member(param: unknown): Lite.Atom<unknown> {
+    const key = keyOf(param)
+    const existing = members.get(key)?.deref()
+    if (existing) return existing
+    const created = atom({
+      name: config.name === undefined ? undefined : `${config.name}(${key})`,
+      deps: config.deps,
+      factory: config.deps
+        ? (ctx: Lite.ResolveContext, deps: unknown) => {
+            track(ctx, key)
+            return config.factory(ctx, deps, param)
+          }
+        : (ctx: Lite.ResolveContext) => {
+            track(ctx, key)
+            return config.factory(ctx, param)
+          },
+      tags: config.tags,
+      keepAlive: config.keepAlive,
+      serializable: config.serializable,
+      eq: config.eq,
+      refresh: config.refresh,
+      persist: config.persist && { ...config.persist, key: `${config.persist.key ?? config.name}(${key})` },
+    } as Parameters<typeof atom>[0])
+    members.set(key, new WeakRef(created))
+    collected.register(created, key)
+    return created
+  }
+
+  function keys(scope: Lite.Scope): string[] {
+    return [...live.get(scope) ?? []]
+  }
+
+  const family = Object.assign(member, { [atomFamilySymbol]: true as const, keys })
+  Object.defineProperty(family, "name", { value: config.name, enumerable: true })
+  return family as unknown as Lite.AtomFamily<any, any>
+}
+
+/**
+ * Type guard to check if a value is an atom family.
+ *
+ * @param value - The value to check
+ * @returns True if the value was created by `atomFamily()`
+ */
+export function isAtomFamily(value: unknown): value is Lite.AtomFamily<unknown, unknown> {
+  return typeof value === "function" && (value as unknown as Record<symbol, unknown>)[atomFamilySymbol] === true
+}
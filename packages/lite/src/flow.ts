@@ -1,6 +1,7 @@
 import { flowSymbol, typedSymbol, FlowFault, type Lite, type MaybePromise } from "./types"
 import { warmDepsGraph } from "./deps-graph"
 import { normalizeTags } from "./tag"
+import { isStandardSchema, schemaParser } from "./schema"
 
 /**
  * Type marker for flow input without runtime parsing.
@@ -28,23 +29,26 @@ export interface FlowConfig<
   Yield = never,
 > {
   name?: string
-  parse?: ((raw: unknown) => MaybePromise<Input>) | Lite.Typed<Input>
+  parse?: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input> | Lite.Typed<Input>
   deps?: D
   faults?: Lite.Typed<Fault>
   factory: Lite.FlowFactory<Output, Input, Fault, D, Yield>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<Input>
 }
 
 /**
  * Creates a short-lived execution unit that processes input and produces output.
  *
- * @param config - Configuration object containing factory function, optional dependencies, and tags
+ * @param config - Configuration object containing factory function, optional dependencies, tags, retry policy, and result cache
  * @returns A Flow instance that can be executed within an execution context
  *
  * @example
  * ```typescript
  * const processUser = flow({
  *   parse: typed<string>(),
+ *   retry: { attempts: 3, delayMs: 50 },
  *   factory: async (ctx) => {
  *     const userId = ctx.input
  *     return await fetchUser(userId)
@@ -59,6 +63,8 @@ export function flow<Fault = never>(config: {
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>) => never
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<never, void, Fault>
 
 export function flow<
@@ -67,10 +73,12 @@ export function flow<
 >(config: {
   name?: string
   parse?: undefined
-  deps: D
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>, deps: Lite.InferDeps<D>) => never
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<never, void, Fault>
 
 export function flow<Output, Yield, Fault = never>(config: {
@@ -80,15 +88,19 @@ export function flow<Output, Yield, Fault = never>(config: {
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<Output, void, Fault, Yield>
 
 export function flow<Output, Yield, Input, Fault = never>(config: {
   name?: string
-  parse: (raw: unknown) => MaybePromise<Input>
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input>
   deps?: undefined
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault, Yield>
 
 export function flow<Output, Yield, Input, Fault = never>(config: {
@@ -98,6 +110,8 @@ export function flow<Output, Yield, Input, Fault = never>(config: {
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault, Yield>
 
 export function flow<
@@ -108,10 +122,12 @@ export function flow<
 >(config: {
   name?: string
   parse?: undefined
-  deps: D
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>, deps: Lite.InferDeps<D>) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<Output, void, Fault, Yield>
 
 export function flow<
@@ -122,11 +138,13 @@ export function flow<
   Fault = never,
 >(config: {
   name?: string
-  parse: (raw: unknown) => MaybePromise<Input>
-  deps: D
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input>
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }, deps: Lite.InferDeps<D>) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault, Yield>
 
 export function flow<
@@ -138,10 +156,12 @@ export function flow<
 >(config: {
   name?: string
   parse: Lite.Typed<Input>
-  deps: D
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }, deps: Lite.InferDeps<D>) => AsyncGenerator<Yield, Output, unknown>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault, Yield>
 
 export function flow<Output, Fault = never>(config: {
@@ -151,15 +171,19 @@ export function flow<Output, Fault = never>(config: {
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<Output, void, Fault>
 
 export function flow<Output, Input, Fault = never>(config: {
   name?: string
-  parse: (raw: unknown) => MaybePromise<Input>
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input>
   deps?: undefined
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault>
 
 export function flow<Output, Input, Fault = never>(config: {
@@ -169,6 +193,8 @@ export function flow<Output, Input, Fault = never>(config: {
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault>
 
 export function flow<
@@ -178,10 +204,12 @@ export function flow<
 >(config: {
   name?: string
   parse?: undefined
-  deps: D
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault>, deps: Lite.InferDeps<D>) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<void>
 }): Lite.Flow<Output, void, Fault>
 
 export function flow<
@@ -191,11 +219,13 @@ export function flow<
   Fault = never,
 >(config: {
   name?: string
-  parse: (raw: unknown) => MaybePromise<Input>
-  deps: D
+  parse: ((raw: unknown) => MaybePromise<Input>) | Lite.StandardSchemaV1<unknown, Input>
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }, deps: Lite.InferDeps<D>) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault>
 
 export function flow<
@@ -206,10 +236,12 @@ export function flow<
 >(config: {
   name?: string
   parse: Lite.Typed<Input>
-  deps: D
+  deps: D & Lite.MappedFaultDeps<D, Fault>
   faults?: Lite.Typed<Fault>
   factory: (ctx: Lite.ExecutionContext<Fault> & { readonly input: NoInfer<Input> }, deps: Lite.InferDeps<D>) => MaybePromise<Output>
   tags?: Lite.TagInput
+  retry?: Lite.RetryPolicy
+  cache?: Lite.FlowCachePolicy<NoInfer<Input>>
 }): Lite.Flow<Output, Input, Fault>
 
 export function flow(config: any): Lite.Flow<any, any, any, any> {
@@ -224,7 +256,9 @@ export function flow(config: any): Lite.Flow<any, any, any, any> {
     name: config.name,
     parse: isTypedMarker
       ? undefined
-      : (parse as ((raw: unknown) => MaybePromise<unknown>) | undefined),
+      : isStandardSchema(parse)
+        ? schemaParser(parse)
+        : (parse as ((raw: unknown) => MaybePromise<unknown>) | undefined),
     factory: config.factory as unknown as Lite.FlowFactory<
       unknown,
       unknown,
@@ -234,6 +268,8 @@ export function flow(config: any): Lite.Flow<any, any, any, any> {
     >,
     deps: config.deps as unknown as Record<string, Lite.Dependency> | undefined,
     tags: normalizeTags(config.tags),
+    retry: config.retry,
+    cache: config.cache,
   }
 }
 
@@ -2,6 +2,7 @@ export type { Lite, AtomState } from "./types"
 export {
   attributeSymbol,
   attributedSymbol,
+  atomFamilySymbol,
   atomSymbol,
   flowSymbol,
   tagSymbol,
@@ -14,14 +15,21 @@ export {
   resourceSymbol,
   ParseError,
   FlowFault,
+  TimeoutError,
+  ShutdownError,
+  WarmupError,
 } from "./types"
 export { tag, tags, isTag, isTagged, isTagExecutor, getAllTags, assertSerializable } from "./tag"
 export { atom, isAtom, controller, isControllerDep } from "./atom"
+export { atomFamily, isAtomFamily } from "./family"
+export { batchedFlow } from "./batch"
+export { fileStorage, memoryStorage, webStorage } from "./persist"
 export { flow, isFlow, typed, isFault } from "./flow"
 export { attribute, flag, isAttribute, isAttributed, normalizeAttributes } from "./attribute"
 export { preset, isPreset } from "./preset"
 export { resource, isResource } from "./resource"
-export { createScope, isStreamingExec, setControllerReadHook, shallowEqual } from "./scope"
+export { inspect, formatGraph } from "./inspect"
+export { computed, createScope, isStreamingExec, setControllerReadHook, shallowEqual } from "./scope"
 export { registerInTracker, startArrayTracking, stopArrayTracking, startTracking, stopTracking } from "./tracker"
 
 declare const __PUMPED_LITE_VERSION__: string
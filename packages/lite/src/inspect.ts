@@ -0,0 +1,203 @@
+import { type Lite } from "./types"
+import { isAtom, isControllerDep } from "./atom"
+import { isFlow } from "./flow"
+import { isResource } from "./resource"
+import { isTagExecutor } from "./tag"
+
+type GraphOwner = Lite.Atom<unknown> | Lite.Flow<any, any, any, any> | Lite.Resource<unknown>
+
+function kindOf(owner: GraphOwner): Lite.GraphNode["kind"] {
+  return isAtom(owner) ? "atom" : isFlow(owner) ? "flow" : "resource"
+}
+
+function ownerLabel(owner: GraphOwner): string {
+  return owner.name || owner.factory?.name || "<anonymous>"
+}
+
+/**
+ * Walks the dependency graph reachable from `targets` without resolving anything.
+ * Atoms, flows, resources, controller deps, and tag executors become nodes and edges;
+ * resources reachable from atoms and required or picked tags without a default are reported as issues.
+ *
+ * @param targets - One dependency or a list of dependencies to start from
+ * @returns A plain graph that `formatGraph()` can export
+ *
+ * @example
+ * ```typescript
+ * import { formatGraph, inspect } from "@pumped-fn/lite"
+ *
+ * const graph = inspect(handleRequest)
+ * for (const issue of graph.issues) console.warn(issue.message)
+ * console.log(formatGraph(graph, "mermaid"))
+ * ```
+ */
+export function inspect(targets: Lite.Dependency | readonly Lite.Dependency[]): Lite.Graph {
+  const ids = new Map<GraphOwner | symbol, string>()
+  const taken = new Set<string>()
+  const byId = new Map<string, Lite.GraphNode>()
+  const nodes: Lite.GraphNode[] = []
+  const edges: Lite.GraphEdge[] = []
+  const issues: Lite.GraphIssue[] = []
+
+  function addNode(key: GraphOwner | symbol, node: Omit<Lite.GraphNode, "id">): string {
+    const base = `${node.kind}:${node.label}`
+    let id = base
+    for (let n = 2; taken.has(id); n++) id = `${base}#${n}`
+    taken.add(id)
+    ids.set(key, id)
+    const created = { id, ...node }
+    nodes.push(created)
+    byId.set(id, created)
+    return id
+  }
+
+  function visitOwner(owner: GraphOwner): string {
+    const known = ids.get(owner)
+    if (known) return known
+    const id = addNode(owner, { kind: kindOf(owner), label: ownerLabel(owner) })
+    const deps = owner.deps as Record<string, Lite.Dependency | null | undefined> | undefined
+    for (const key in deps) {
+      const dep = deps[key]
+      if (dep == null) continue
+      const target = visit(dep)
+      edges.push({ from: id, to: target[0], key, via: target[1] })
+    }
+    return id
+  }
+
+  function visit(dep: Lite.Dependency): [string, Lite.GraphEdge["via"]] {
+    if (isAtom(dep) || isFlow(dep) || isResource(dep)) return [visitOwner(dep), "value"]
+    if (isTagExecutor(dep)) {
+      const tag = dep.tag
+      const id = ids.get(tag.key) ?? addNode(tag.key, { kind: "tag", label: tag.label, hasDefault: tag.hasDefault })
+      return [id, dep.mode]
+    }
+    if (isControllerDep(dep)) {
+      const ctrl = dep as Lite.ControllerDep<unknown>
+      return [visitOwner((ctrl.atom ?? ctrl.resource ?? ctrl.flow)!), "controller"]
+    }
+    throw new TypeError("inspect() expects atoms, flows, resources, controller deps, or tag executors")
+  }
+
+  const list = Array.isArray(targets) ? targets as readonly Lite.Dependency[] : [targets as Lite.Dependency]
+  const roots = list.map((target) => visit(target)[0])
+
+  const outgoing = new Map<string, Lite.GraphEdge[]>()
+  for (const edge of edges) {
+    const bucket = outgoing.get(edge.from)
+    if (bucket) bucket.push(edge)
+    else outgoing.set(edge.from, [edge])
+  }
+
+  const flagged = new Set<string>()
+  for (const node of nodes) {
+    if (node.kind !== "atom") continue
+    const seen = new Set([node.id])
+    const queue = [node.id]
+    for (let i = 0; i < queue.length; i++) {
+      for (const edge of outgoing.get(queue[i]!) ?? []) {
+        if (seen.has(edge.to)) continue
+        seen.add(edge.to)
+        queue.push(edge.to)
+        const reached = byId.get(edge.to)!
+        if (reached.kind !== "resource" || flagged.has(reached.id)) continue
+        flagged.add(reached.id)
+        issues.push({
+          kind: "atom-resource",
+          node: reached.id,
+          from: node.id,
+          message: `Resource "${reached.label}" is reachable from atom "${node.label}"`,
+        })
+      }
+    }
+  }
+
+  for (const edge of edges) {
+    const tag = byId.get(edge.to)!
+    if ((edge.via !== "required" && edge.via !== "pick") || tag.hasDefault) continue
+    const owner = byId.get(edge.from)!
+    issues.push({
+      kind: "missing-tag-default",
+      node: tag.id,
+      from: owner.id,
+      message: `Tag "${tag.label}" is ${edge.via === "pick" ? "picked" : "required"} by ${owner.kind} "${owner.label}" and has no default`,
+    })
+  }
+
+  return { roots, nodes, edges, issues }
+}
+
+const dotShapes: Record<Lite.GraphNode["kind"], string> = {
+  atom: "box",
+  flow: "ellipse",
+  resource: "component",
+  tag: "note",
+}
+
+const mermaidShapes: Record<Lite.GraphNode["kind"], [string, string]> = {
+  atom: ["[", "]"],
+  flow: ["([", "])"],
+  resource: ["[(", ")]"],
+  tag: ["{{", "}}"],
+}
+
+function edgeLabel(edge: Lite.GraphEdge): string {
+  return edge.via === "value" ? edge.key : `${edge.key} (${edge.via})`
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`
+}
+
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, "#quot;")}"`
+}
+
+/**
+ * Renders a graph from `inspect()` as Graphviz DOT, a Mermaid flowchart, or indented JSON.
+ * Nodes flagged by an issue are highlighted in the DOT and Mermaid output.
+ *
+ * @param graph - Graph returned by `inspect()`
+ * @param format - `"dot"`, `"mermaid"`, or `"json"`
+ * @returns The rendered graph
+ */
+export function formatGraph(graph: Lite.Graph, format: Lite.GraphFormat): string {
+  if (format === "json") return JSON.stringify(graph, null, 2)
+
+  const flagged = new Set(graph.issues.map((issue) => issue.node))
+  const lines: string[] = []
+
+  if (format === "dot") {
+    lines.push("digraph {")
+    for (const node of graph.nodes) {
+      const color = flagged.has(node.id) ? ", color=red" : ""
+      lines.push(`  ${dotString(node.id)} [label=${dotString(node.label)}, shape=${dotShapes[node.kind]}${color}];`)
+    }
+    for (const edge of graph.edges) {
+      const style = edge.via === "value" ? "" : edge.via === "controller" ? ", style=dashed" : ", style=dotted"
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edgeLabel(edge))}${style}];`)
+    }
+    lines.push("}")
+    return lines.join("\n")
+  }
+
+  if (format !== "mermaid") throw new TypeError(`Unknown graph format: ${String(format)}`)
+
+  const aliases = new Map<string, string>()
+  lines.push("flowchart LR")
+  for (const node of graph.nodes) {
+    const alias = `n${aliases.size}`
+    aliases.set(node.id, alias)
+    const [open, close] = mermaidShapes[node.kind]
+    lines.push(`  ${alias}${open}${mermaidString(node.label)}${close}`)
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.via === "value" ? "-->" : "-.->"
+    lines.push(`  ${aliases.get(edge.from)} ${arrow}|${mermaidString(edgeLabel(edge))}| ${aliases.get(edge.to)}`)
+  }
+  if (flagged.size) {
+    lines.push("  classDef issue stroke:#d33,stroke-width:2px")
+    lines.push(`  class ${[...flagged].map((id) => aliases.get(id)).join(",")} issue`)
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,105 @@
+import { type Lite } from "./types"
+
+/** Minimal `localStorage`/`sessionStorage` shape accepted by `webStorage()`. */
+export interface WebStorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+/** Promise-based file system subset accepted by `fileStorage()`; `node:fs/promises` satisfies it. */
+export interface FileStorageFs {
+  readFile(path: string, encoding: "utf8"): Promise<string>
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>
+  rename(from: string, to: string): Promise<void>
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>
+}
+
+/**
+ * Creates a storage adapter backed by an in-memory map, for tests and server-side rendering.
+ *
+ * @param initial - Optional raw entries to seed the store with
+ * @returns A `PersistStorage` whose contents live as long as the adapter
+ *
+ * @example
+ * ```typescript
+ * import { atom, memoryStorage } from "@pumped-fn/lite"
+ *
+ * const storage = memoryStorage()
+ * const theme = atom({ name: "theme", factory: () => "light", persist: { storage } })
+ * ```
+ */
+export function memoryStorage(initial?: Record<string, string>): Lite.PersistStorage {
+  const items = new Map(initial ? Object.entries(initial) : undefined)
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+  }
+}
+
+/**
+ * Creates a storage adapter over a `localStorage`-shaped object, optionally namespacing keys.
+ *
+ * @param storage - `localStorage`, `sessionStorage`, or any object with `getItem`/`setItem`
+ * @param options - Optional `prefix` prepended to every key
+ * @returns A `PersistStorage` reading and writing through `storage`
+ *
+ * @example
+ * ```typescript
+ * import { atom, webStorage } from "@pumped-fn/lite"
+ *
+ * const prefs = atom({
+ *   name: "prefs",
+ *   factory: () => ({ theme: "light" }),
+ *   persist: { storage: webStorage(localStorage, { prefix: "app:" }) },
+ * })
+ * ```
+ */
+export function webStorage(storage: WebStorageLike, options?: { prefix?: string }): Lite.PersistStorage {
+  const prefix = options?.prefix ?? ""
+  return {
+    getItem: (key) => storage.getItem(prefix + key),
+    setItem: (key, value) => storage.setItem(prefix + key, value),
+  }
+}
+
+/**
+ * Creates a storage adapter that keeps one JSON file per key in `dir`. Writes go to a temporary
+ * file first and are renamed into place, so a crash never leaves a half-written value.
+ *
+ * @param options - Target `dir` and the `fs` implementation, usually `node:fs/promises`
+ * @returns A `PersistStorage` returning `null` for keys without a file
+ *
+ * @example
+ * ```typescript
+ * import * as fs from "node:fs/promises"
+ * import { atom, fileStorage } from "@pumped-fn/lite"
+ *
+ * const drafts = atom({
+ *   name: "drafts",
+ *   factory: () => [] as string[],
+ *   persist: { storage: fileStorage({ dir: ".state", fs }), debounceMs: 500 },
+ * })
+ * ```
+ */
+export function fileStorage(options: { dir: string; fs: FileStorageFs }): Lite.PersistStorage {
+  const { dir, fs } = options
+  const pathFor = (key: string) => `${dir}/${encodeURIComponent(key)}.json`
+  return {
+    getItem: async (key) => {
+      try {
+        return await fs.readFile(pathFor(key), "utf8")
+      } catch (error) {
+        if ((error as { code?: unknown }).code === "ENOENT") return null
+        throw error
+      }
+    },
+    setItem: async (key, value) => {
+      const path = pathFor(key)
+      await fs.mkdir(dir, { recursive: true })
+      await fs.writeFile(`${path}.tmp`, value, "utf8")
+      await fs.rename(`${path}.tmp`, path)
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { type Lite } from "./types"
+
+function randomRetryDelay(policy: Lite.RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.maxDelayMs ?? 30_000,
+    (policy.delayMs ?? 100) * (policy.factor ?? 2) ** (attempt - 1),
+  )
+  const jitter = Math.min(Math.max(policy.jitter ?? 0.2, 0), 1)
+  return base * (1 - jitter * Math.random())
+}
+
+/**
+ * Settles once the next attempt may start. Rejects with `error` when the policy
+ * declines another attempt, or with the abort reason when a signal fires first.
+ */
+export function retryTimer(
+  policy: Lite.RetryPolicy,
+  error: unknown,
+  attempt: number,
+  signals: readonly (AbortSignal | undefined)[],
+): Promise<void> {
+  for (let i = 0; i < signals.length; i++) {
+    if (signals[i]?.aborted) return Promise.reject(error)
+  }
+  if (attempt >= (policy.attempts ?? 3)) return Promise.reject(error)
+  try {
+    if (policy.shouldRetry && !policy.shouldRetry(error, attempt)) return Promise.reject(error)
+  } catch (predicateError) {
+    return Promise.reject(predicateError)
+  }
+  const delay = randomRetryDelay(policy, attempt)
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(done, delay)
+    function done(): void {
+      for (let i = 0; i < signals.length; i++) signals[i]?.removeEventListener("abort", abort)
+      resolve()
+    }
+    function abort(this: AbortSignal): void {
+      clearTimeout(timer)
+      for (let i = 0; i < signals.length; i++) signals[i]?.removeEventListener("abort", abort)
+      reject(this.reason)
+    }
+    for (let i = 0; i < signals.length; i++) signals[i]?.addEventListener("abort", abort, { once: true })
+  })
+}
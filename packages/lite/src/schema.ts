@@ -0,0 +1,41 @@
+import { type Lite, type MaybePromise } from "./types"
+
+class SchemaFailure extends Error {
+  override readonly name = "SchemaFailure"
+  readonly issues: readonly Lite.ParseIssue[]
+
+  constructor(issues: readonly Lite.StandardSchemaIssue[]) {
+    const normalized = issues.map((issue) => ({
+      message: issue.message,
+      path: (issue.path ?? []).map((segment) => typeof segment === "object" ? segment.key : segment),
+    }))
+    super(normalized.map((issue) =>
+      issue.path.length ? `${issue.path.map(String).join(".")}: ${issue.message}` : issue.message,
+    ).join("; "))
+    this.issues = normalized
+  }
+}
+
+export function isStandardSchema(value: unknown): value is Lite.StandardSchemaV1 {
+  if ((typeof value !== "object" && typeof value !== "function") || value === null) return false
+  const props = (value as { "~standard"?: { version?: unknown; validate?: unknown } })["~standard"]
+  return typeof props === "object" && props !== null && props.version === 1 && typeof props.validate === "function"
+}
+
+function unwrap<T>(result: Lite.StandardSchemaResult<T>): T {
+  if (result.issues) throw new SchemaFailure(result.issues)
+  return result.value
+}
+
+/** Adapts a Standard Schema to a parse function that throws with normalized issues. */
+export function schemaParser<T>(schema: Lite.StandardSchemaV1<unknown, T>): (raw: unknown) => MaybePromise<T> {
+  return (raw) => {
+    const result = schema["~standard"].validate(raw)
+    return result instanceof Promise ? result.then(unwrap) : unwrap(result)
+  }
+}
+
+/** Issues carried by a failed schema parse, or `[]` for any other error. */
+export function parseIssues(error: unknown): readonly Lite.ParseIssue[] {
+  return error instanceof SchemaFailure ? error.issues : []
+}
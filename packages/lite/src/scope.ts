@@ -1,11 +1,14 @@
-import { controllerSymbol, ParseError, FlowFault, type Lite, type MaybePromise, type AtomState } from "./types"
+import { controllerSymbol, ParseError, FlowFault, TimeoutError, ShutdownError, WarmupError, type Lite, type MaybePromise, type AtomState } from "./types"
 import { isAtom, isControllerDep } from "./atom"
-import { classifyDeps, type DepsGraph } from "./deps-graph"
-import { isFlow } from "./flow"
+import { classifyDeps, findDependencyCycle, type CycleNode, type DepsGraph } from "./deps-graph"
+import { isFault, isFlow } from "./flow"
+import { isPreset } from "./preset"
 import { isResource } from "./resource"
-import { assertSerializable, isTagged, normalizeTags, readTagged, resolveTag } from "./tag"
+import { assertSerializable, isTagged, matchTagged, normalizeTags, pickTagged, readTagged, resolveTag, type TagCarrier } from "./tag"
 import { latest, type Latest } from "./latest"
 import { assertNoReturnedStream, consumeScalarResult, detachedStreamResultBeforeStartError, isAsyncGenerator, isAsyncGeneratorFunction, isPromiseLike, markStreamingExec, registerStreamingExec, requireAsyncGenerator, streamResultBeforeStartError } from "./streaming"
+import { retryTimer } from "./retry"
+import { isStandardSchema, parseIssues, schemaParser } from "./schema"
 export { isStreamingExec } from "./streaming"
 
 function isPlainObject(value: object): value is Record<PropertyKey, unknown> {
@@ -42,6 +45,21 @@ interface CloseCleanup {
   params: unknown[]
 }
 
+interface BatchedWrite {
+  readonly entry: AtomEntry<unknown>
+  readonly before: unknown
+}
+
+interface BatchFrame {
+  readonly writes: Map<Lite.Atom<unknown>, BatchedWrite>
+  readonly invalidations: Map<Lite.Atom<unknown>, boolean>
+}
+
+interface RegisteredCompensation extends Lite.Compensation {
+  readonly seq: number
+  cancelled?: boolean
+}
+
 type Listener = () => void
 
 interface Update<T> {
@@ -56,6 +74,7 @@ interface PendingSet<T> {
 
 interface WatchEdge {
   target: Lite.Atom<unknown>
+  scope: ScopeImpl
   previous: unknown
   eq: (previous: any, next: any) => boolean
 }
@@ -83,6 +102,14 @@ interface ContextTagFamily {
   tag: Lite.Tag<any, boolean>
   first: any
   rest?: any[]
+  /** Carrier attributes by value position; absent while no value carries any. */
+  attributes?: (readonly Lite.Attributed<any>[] | undefined)[]
+}
+
+interface FamilyReplacement {
+  tag: Lite.Tag<any, boolean>
+  values: any[]
+  attributes?: (readonly Lite.Attributed<any>[] | undefined)[]
 }
 
 type ContextTagListener = (values: readonly any[]) => void
@@ -169,9 +196,12 @@ class ContextStore {
     if (tag.serializable) assertSerializable(normalized.value)
     this.raw.delete(normalized.key)
     if (!family) {
-      this.families.set(normalized.key, { tag, first: normalized.value })
+      this.families.set(normalized.key, normalized.attributes
+        ? { tag, first: normalized.value, attributes: [normalized.attributes] }
+        : { tag, first: normalized.value })
       return
     }
+    if (normalized.attributes) (family.attributes ??= [])[1 + (family.rest?.length ?? 0)] = normalized.attributes
     if (family.rest) family.rest.push(normalized.value)
     else family.rest = [normalized.value]
   }
@@ -179,12 +209,13 @@ class ContextStore {
   set(input: Lite.TagInput): void {
     if (this.finalized) throw new Error("ExecutionContext is closed")
     const taggedValues = normalizeTags(input)!
-    const grouped = new Map<symbol, { tag: Lite.Tag<any, boolean>; values: any[] }>()
+    const grouped = new Map<symbol, FamilyReplacement>()
     for (let i = 0; i < taggedValues.length; i++) {
       const tagged = taggedValues[i]!
-      const family = grouped.get(tagged.key)
-      if (family) family.values.push(tagged.value)
-      else grouped.set(tagged.key, { tag: tagged.tag, values: [tagged.value] })
+      let family = grouped.get(tagged.key)
+      if (!family) grouped.set(tagged.key, family = { tag: tagged.tag, values: [] })
+      if (tagged.attributes) (family.attributes ??= [])[family.values.length] = tagged.attributes
+      family.values.push(tagged.value)
     }
     this.replaceFamilies([...grouped.values()])
   }
@@ -296,7 +327,13 @@ class ContextStore {
     return (this.raw.has(tag.key) ? [this.raw.get(tag.key)] : []) as T[]
   }
 
-  private replaceFamilies(replacements: Array<{ tag: Lite.Tag<any, boolean>; values: any[] }>): void {
+  collectCarriers(tag: Lite.Tag<any, boolean>): TagCarrier[] {
+    const family = this.families.get(tag.key)
+    if (!family) return this.raw.has(tag.key) ? [{ value: this.raw.get(tag.key) }] : []
+    return this.familyValues(family).map((value, i) => ({ value, attributes: family.attributes?.[i] }))
+  }
+
+  private replaceFamilies(replacements: FamilyReplacement[]): void {
     for (let i = 0; i < replacements.length; i++) {
       const replacement = replacements[i]!
       const family = this.families.get(replacement.tag.key)
@@ -325,11 +362,13 @@ class ContextStore {
       }
     }
     for (let i = 0; i < replacements.length; i++) {
-      const { tag, values } = replacements[i]!
+      const { tag, values, attributes } = replacements[i]!
       this.raw.delete(tag.key)
-      this.families.set(tag.key, values.length === 1
+      const family: ContextTagFamily = values.length === 1
         ? { tag, first: values[0] }
-        : { tag, first: values[0], rest: values.slice(1) })
+        : { tag, first: values[0], rest: values.slice(1) }
+      if (attributes) family.attributes = attributes
+      this.families.set(tag.key, family)
     }
     for (let i = 0; i < changed.length; i++) this.queue(changed[i]!)
     this.flush()
@@ -464,6 +503,10 @@ class ContextDataImpl implements Lite.ContextData {
     return this.store.collectTagCompat(tag)
   }
 
+  collectCarriers(tag: Lite.Tag<any, boolean>): TagCarrier[] {
+    return this.store.collectCarriers(tag)
+  }
+
   has(key: string | symbol): boolean {
     return this.store.hasRaw(key)
   }
@@ -537,6 +580,7 @@ interface AtomEntry<T> {
   pendingSet?: PendingSet<T>
   data?: ContextDataImpl
   dependents?: Set<Lite.Atom<unknown>>
+  forkDependents?: Map<ScopeImpl, Set<Lite.Atom<unknown>>>
   watchers?: Set<WatchEdge>
   valueListeners?: Set<Listener>
   valueReady?: boolean
@@ -545,6 +589,11 @@ interface AtomEntry<T> {
   gcQueued: boolean
   gcScheduled: ReturnType<typeof setTimeout> | null
   resolvedPromise?: Promise<T>
+  refreshedAt?: number
+  refreshScheduled?: ReturnType<typeof setTimeout>
+  refreshing?: boolean
+  heldCleanups?: Cleanup[]
+  persistScheduled?: ReturnType<typeof setTimeout>
 }
 
 class AtomEntryImpl<T> implements AtomEntry<T> {
@@ -566,6 +615,13 @@ class AtomEntryImpl<T> implements AtomEntry<T> {
   }
 }
 
+interface ForkState {
+  parent: ScopeImpl
+  presets: Set<unknown>
+  tagKeys: Set<symbol>
+  owned: Map<Lite.Atom<unknown>, boolean>
+}
+
 interface ReleaseFlight {
   entry: object
   generation: object
@@ -615,9 +671,20 @@ type ExecFlowRuntimeOptions = {
   name?: string
   tags?: Lite.TagInput
   signal?: AbortSignal
+  timeout?: number
+  deadline?: number
   blockedTags?: Lite.Tagged<any>[]
+  retry?: Lite.RetryPolicy | false
+  presets?: Lite.Preset<any, any, any>[]
+  attempt?: number
+  inputParsed?: boolean
+  skipCache?: boolean
 }
 
+type ExecGroupMode = "all" | "allSettled" | "race" | "any"
+
+type PresetMap = Map<Lite.Atom<unknown> | Lite.Flow<unknown, unknown, any, unknown> | Lite.Resource<unknown>, unknown>
+
 type ExecDepsRuntimeOptions = {
   name: string
   deps: Record<string, Lite.ExecutionDependency>
@@ -625,6 +692,8 @@ type ExecDepsRuntimeOptions = {
   params: unknown[]
   tags?: Lite.TagInput
   signal?: AbortSignal
+  timeout?: number
+  deadline?: number
 }
 
 type ExecRuntimeOptions = {
@@ -634,6 +703,8 @@ type ExecRuntimeOptions = {
   params: unknown[]
   tags?: Lite.TagInput
   signal?: AbortSignal
+  timeout?: number
+  deadline?: number
 }
 
 class StreamAbandonment {
@@ -696,6 +767,177 @@ function combineAbortSignals(signals: AbortSignal[]): AbortSignal {
   return controller.signal
 }
 
+function toExecResult(
+  error: unknown,
+  flow: Lite.Flow<unknown, unknown, any, unknown>,
+  presetOf: (target: Lite.Flow<unknown, unknown, any, unknown>) => unknown,
+): Lite.ExecResult<never, unknown> {
+  if (error instanceof FlowFault && error.origin) {
+    for (let target: unknown = flow; isFlow(target); target = presetOf(target)) {
+      if (error.origin === target) return { ok: false, fault: error.fault }
+    }
+  }
+  return { ok: false, error }
+}
+
+function translateFault<Output>(
+  result: Lite.ExecResult<Output, unknown>,
+  flow: Lite.Flow<any, any, any, any>,
+  ctx: Lite.ExecutionContext,
+  mapFaults: (fault: unknown) => unknown,
+): Lite.ExecResult<Output, any> {
+  if (result.ok || !("fault" in result)) return result
+  const mapped = mapFaults(result.fault)
+  return mapped === undefined
+    ? { ok: false, error: new FlowFault(result.fault, ctx.name, undefined, flow.name ?? "anonymous") }
+    : { ok: false, fault: mapped }
+}
+
+function unwrapExecResult<Output>(result: Lite.ExecResult<Output, unknown>, ctx: Lite.ExecutionContext<unknown>): Output {
+  if (result.ok) return result.value
+  if ("fault" in result) return ctx.fail(result.fault)
+  throw result.error
+}
+
+function clockNow(): number {
+  return Date.now()
+}
+
+function unrefTimer(timer: ReturnType<typeof setTimeout>): ReturnType<typeof setTimeout> {
+  ;(timer as { unref?: () => void }).unref?.()
+  return timer
+}
+
+function persistKey(atom: Lite.Atom<unknown>): string {
+  return atom.persist!.key ?? atom.name!
+}
+
+async function parsePersisted<T>(atom: Lite.Atom<T>, raw: Lite.JsonValue): Promise<T> {
+  const parse = atom.persist!.parse
+  if (!parse) return raw as T
+  try {
+    return await (isStandardSchema(parse) ? schemaParser(parse)(raw) : parse(raw))
+  } catch (err) {
+    const key = persistKey(atom as Lite.Atom<unknown>)
+    throw new ParseError(`Failed to parse persisted value "${key}"`, "persist", key, err, parseIssues(err))
+  }
+}
+
+function parseFlowInput(flow: Lite.Flow<unknown, unknown, any, unknown>, raw: unknown, execName: string | undefined): MaybePromise<unknown> {
+  const label = execName ?? flow.name ?? "anonymous"
+  const wrap = (err: unknown) => new ParseError(
+    `Failed to parse flow input "${label}"`,
+    "flow-input",
+    label,
+    err,
+    parseIssues(err)
+  )
+  let parsed: unknown
+  try {
+    parsed = flow.parse!(raw)
+  } catch (err) {
+    throw wrap(err)
+  }
+  if (isPromiseLike(parsed)) {
+    return Promise.resolve(parsed).then(undefined, (err) => {
+      throw wrap(err)
+    })
+  }
+  return parsed
+}
+
+interface FlowCacheEntry {
+  promise: Promise<unknown>
+  expiresAt: number
+}
+
+type FlowCacheStore = Map<Lite.Flow<unknown, unknown, any, unknown>, Map<string, FlowCacheEntry>>
+
+interface PendingBatch {
+  readonly entries: Map<string, { input: unknown; waiters: ((result: Lite.ExecResult<unknown, unknown>) => void)[] }>
+  timer: ReturnType<typeof setTimeout> | undefined
+}
+
+function isFresh(entry: FlowCacheEntry | undefined): entry is FlowCacheEntry {
+  return entry !== undefined && entry.expiresAt > clockNow()
+}
+
+/** Drops a settled entry once its ttl passes, unless the key was invalidated or refilled since. */
+function scheduleCacheExpiryTimer(entries: Map<string, FlowCacheEntry>, key: string, entry: FlowCacheEntry, ttlMs: number): void {
+  entry.expiresAt = clockNow() + ttlMs
+  unrefTimer(setTimeout(() => {
+    if (entries.get(key) === entry) entries.delete(key)
+  }, ttlMs))
+}
+
+function flowCacheHandle(store: () => FlowCacheStore | undefined, flow: Lite.Flow<unknown, unknown, any, unknown>): Lite.FlowCacheHandle {
+  return {
+    invalidate(key) {
+      const entries = store()?.get(flow)
+      if (key === undefined) entries?.clear()
+      else entries?.delete(key)
+    },
+    has(key) {
+      const entries = store()?.get(flow)
+      if (isFresh(entries?.get(key))) return true
+      entries?.delete(key)
+      return false
+    },
+  }
+}
+
+/**
+ * Follows a run shared between callers. Rejects with the abort reason or a `TimeoutError`
+ * when this caller gives up first, leaving the shared run and its other callers untouched.
+ */
+function sharedWaitTimer<T>(
+  promise: Promise<T>,
+  signals: readonly (AbortSignal | undefined)[],
+  deadline: number | undefined,
+  name: string | undefined,
+): Promise<T> {
+  for (let i = 0; i < signals.length; i++) {
+    if (signals[i]?.aborted) return Promise.reject(signals[i]!.reason)
+  }
+  if (deadline !== undefined && deadline <= clockNow()) return Promise.reject(new TimeoutError(deadline, name))
+  return new Promise<T>((resolve, reject) => {
+    const timer = deadline === undefined
+      ? undefined
+      : unrefTimer(setTimeout(() => { stop(); reject(new TimeoutError(deadline, name)) }, deadline - clockNow()))
+    function stop(): void {
+      if (timer !== undefined) clearTimeout(timer)
+      for (let i = 0; i < signals.length; i++) signals[i]?.removeEventListener("abort", abort)
+    }
+    function abort(this: AbortSignal): void {
+      stop()
+      reject(this.reason)
+    }
+    for (let i = 0; i < signals.length; i++) signals[i]?.addEventListener("abort", abort, { once: true })
+    promise.then(
+      (value) => { stop(); resolve(value) },
+      (error: unknown) => { stop(); reject(error) },
+    )
+  })
+}
+
+function earliestDeadline(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b)
+}
+
+function atomLabel(atom: Lite.Atom<unknown>): string {
+  return atom.name || atom.factory?.name || "<anonymous>"
+}
+
+function cycleError(cycle: CycleNode[]): Error {
+  const kind = isResource(cycle[0]) ? "resource " : ""
+  const path = cycle.map(node => isResource(node) ? node.name ?? "anonymous" : atomLabel(node as Lite.Atom<unknown>))
+  return new Error(`Circular ${kind}dependency detected: ${path.join(" -> ")}`)
+}
+
+function notResolvedError(atom: Lite.Atom<unknown>): Error {
+  return new Error(atom.name ? `Atom not resolved: ${atom.name}` : "Atom not resolved")
+}
+
 function applyUpdates<T>(value: T, updates: Update<T>[]): T {
   let current = value
   for (let i = 0; i < updates.length; i++) {
@@ -822,6 +1064,120 @@ class SelectHandleImpl<T, S> implements Lite.SelectHandle<S> {
   }
 }
 
+const computedNotifyDepth: NotifyDepth = { count: 0 }
+const unresolvedRead = Symbol("unresolved")
+
+type ComputedOutcome<T> = { ok: true; value: T } | { ok: false; error: unknown }
+
+class ComputedHandleImpl<T> implements Lite.SelectHandle<T> {
+  private listeners = new Set<Listener>()
+  private reads = new Map<ControllerImpl<unknown>, unknown>()
+  private subscriptions = new Map<ControllerImpl<unknown>, () => void>()
+  private outcome: ComputedOutcome<T> | null = null
+  private pendingFrom: ComputedOutcome<T> | null = null
+  private dirty = true
+  private notifyPending = false
+  private frozen = false
+
+  constructor(
+    private fn: () => T,
+    private eq: (prev: T, next: T) => boolean
+  ) {}
+
+  get(): T {
+    if (!this.outcome || (!this.frozen && (this.dirty || (!this.subscriptions.size && this.readsChanged())))) this.evaluate()
+    if (controllerReadHooks.length) this.reportReads()
+    const outcome = this.outcome!
+    if (!outcome.ok) throw outcome.error
+    return outcome.value
+  }
+
+  subscribe<Args extends unknown[]>(listener: (...args: Args) => void, ...params: Args): () => void {
+    if (!this.subscriptions.size) {
+      this.frozen = false
+      if (this.dirty || this.readsChanged()) this.evaluate()
+      this.syncSubscriptions()
+    }
+    const registered = bindListener(listener, params)
+    this.listeners.add(registered)
+
+    return () => {
+      this.listeners.delete(registered)
+      if (this.listeners.size === 0) this.unsubscribeAll()
+    }
+  }
+
+  dispose(): void {
+    this.listeners.clear()
+    this.unsubscribeAll()
+    this.frozen = true
+  }
+
+  private evaluate(): void {
+    const reads = new Map<ControllerImpl<unknown>, unknown>()
+    controllerReadHooks.push((ctrl) => {
+      if (ctrl instanceof ControllerImpl && !reads.has(ctrl)) reads.set(ctrl, ctrl._peek())
+    })
+    let next: ComputedOutcome<T>
+    try {
+      next = { ok: true, value: this.fn() }
+    } catch (error) {
+      next = { ok: false, error }
+    } finally {
+      controllerReadHooks.pop()
+    }
+    this.reads = reads
+    this.dirty = false
+    const prev = this.outcome
+    if (!prev || !prev.ok || !next.ok || !this.eq(prev.value, next.value)) this.outcome = next
+    if (this.subscriptions.size) this.syncSubscriptions()
+  }
+
+  private readsChanged(): boolean {
+    for (const [ctrl, seen] of this.reads) {
+      if (!Object.is(ctrl._peek(), seen)) return true
+    }
+    return false
+  }
+
+  private reportReads(): void {
+    for (const ctrl of this.reads.keys()) {
+      for (let i = controllerReadHooks.length - 1; i >= 0; i--) {
+        controllerReadHooks[i]!(ctrl)
+      }
+    }
+  }
+
+  private syncSubscriptions(): void {
+    for (const [ctrl, unsub] of this.subscriptions) {
+      if (this.reads.has(ctrl)) continue
+      unsub()
+      this.subscriptions.delete(ctrl)
+    }
+    for (const ctrl of this.reads.keys()) {
+      if (!this.subscriptions.has(ctrl)) this.subscriptions.set(ctrl, ctrl.on('resolved', this.markDirty, ctrl))
+    }
+  }
+
+  private unsubscribeAll(): void {
+    for (const unsub of this.subscriptions.values()) unsub()
+    this.subscriptions.clear()
+  }
+
+  private readonly markDirty = (ctrl: ControllerImpl<unknown>): void => {
+    this.dirty = true
+    if (this.notifyPending) return
+    this.notifyPending = true
+    this.pendingFrom = this.outcome
+    void ctrl._settled().then(() => {
+      this.notifyPending = false
+      if (!this.subscriptions.size) return
+      if (this.dirty) this.evaluate()
+      if (this.outcome !== this.pendingFrom) notifyListeners(computedNotifyDepth, this.listeners)
+    })
+  }
+}
+
 class ControllerImpl<T> implements Lite.Controller<T> {
   readonly [controllerSymbol] = true
   _entryCache: AtomEntry<T> | null = null
@@ -843,6 +1199,16 @@ class ControllerImpl<T> implements Lite.Controller<T> {
     this._entryCache = null
   }
 
+  _peek(): unknown {
+    const entry = this.resolveEntry()
+    if (entry?.hasValue) return entry.value
+    return entry?.error ?? unresolvedRead
+  }
+
+  _settled(): Promise<void> {
+    return this.scope.settled()
+  }
+
   get state(): AtomState {
     const e = this._entryCache ?? this.resolveEntry()
     return e?.state ?? 'idle'
@@ -859,10 +1225,10 @@ class ControllerImpl<T> implements Lite.Controller<T> {
       controllerReadHooks[i]!(this)
     }
     const entry = this.resolveEntry()
-    if (!entry || entry.state === 'idle') throw new Error("Atom not resolved")
+    if (!entry || entry.state === 'idle') throw notResolvedError(this.atom)
     if (entry.state === 'failed') throw entry.error!
     if (entry.hasValue) return entry.value as T
-    throw new Error("Atom not resolved")
+    throw notResolvedError(this.atom)
   }
 
   async resolve(): Promise<T> {
@@ -934,11 +1300,16 @@ class ResourceControllerImpl<T> implements Lite.ResourceController<T> {
 class ScopeImpl implements Lite.Scope {
   private cache = new Map<Lite.Atom<unknown>, AtomEntry<unknown>>()
   private releasing?: Map<Lite.Atom<unknown>, ReleaseFlight>
-  private presets?: Map<Lite.Atom<unknown> | Lite.Flow<unknown, unknown, any, unknown> | Lite.Resource<unknown>, unknown>
+  private presets?: PresetMap
+  private hydration?: Map<string, Lite.JsonValue>
+  private hydratedBy?: Map<string, Lite.Atom<unknown>>
+  private hydratedDeps?: Set<Promise<void>>
+  private acyclic?: WeakSet<CycleNode>
   private stateListeners?: Map<AtomState, Map<Lite.Atom<unknown>, Set<Listener>>>
   private invalidationQueue?: Lite.Atom<unknown>[]
   private invalidationQueued?: Set<Lite.Atom<unknown>>
   private invalidationIndex = 0
+  private compensationSeq = 0
   private drainTarget: Lite.Atom<unknown> | null = null
   readonly notifyDepth: NotifyDepth = { count: 0 }
   private drainStarted = false
@@ -947,6 +1318,10 @@ class ScopeImpl implements Lite.Scope {
   private invalidationChain: Set<Lite.Atom<unknown>> | null = null
   private chainPromise: Promise<void> | null = null
   private chainError: unknown = null
+  private backgroundErrors?: Error[]
+  private batchFrames?: BatchFrame[]
+  private settledBatch?: BatchFrame
+  private persistWrites?: Map<Lite.Atom<unknown>, Promise<void>>
   private initialized = false
   private disposed = false
   private disposeListeners?: Set<Listener>
@@ -958,9 +1333,20 @@ class ScopeImpl implements Lite.Scope {
   readonly tags: readonly Lite.Tagged<any>[]
   readonly resolveExts: Lite.Extension[]
   readonly execExts: Lite.Extension[]
+  readonly compensateExts: Lite.Extension[]
   readonly contextExts: Lite.Extension[]
   readonly ready: Promise<void>
+  private initializing: Promise<void> | undefined
   private pendingContextCloses?: Set<Promise<void>>
+  private openContexts?: Set<WeakRef<ExecutionContextImpl>>
+  private openContextRefs?: WeakMap<ExecutionContextImpl, WeakRef<ExecutionContextImpl>>
+  private collectedContexts?: FinalizationRegistry<WeakRef<ExecutionContextImpl>>
+  private drainWaiter?: () => void
+  private shutdownPromise?: Promise<Lite.ShutdownReport>
+  private readonly ownExtensions: Lite.Extension[]
+  private readonly forked?: ForkState
+  private forks?: Set<ScopeImpl>
+  flowCaches?: FlowCacheStore
 
   private taintContext(): boolean {
     return this.drainStarted || this.notifyDepth.count > 0
@@ -978,6 +1364,12 @@ class ScopeImpl implements Lite.Scope {
       return
     }
 
+    if (this.batchFrames) {
+      const deferred = this.batchFrames[this.batchFrames.length - 1]!.invalidations
+      deferred.set(atom, deferred.get(atom) === true || tainted)
+      return
+    }
+
     const queued = this.invalidationQueued ??= new Set()
     if (!queued.has(atom)) {
       queued.add(atom)
@@ -1015,17 +1407,28 @@ class ScopeImpl implements Lite.Scope {
     }
   }
 
-  constructor(options?: Lite.ScopeOptions) {
-    this.extensions = options?.extensions ?? noExtensions
+  constructor(options?: Lite.ScopeOptions, parent?: ScopeImpl) {
+    this.ownExtensions = options?.extensions ?? noExtensions
+    this.extensions = parent?.extensions.length ? [...parent.extensions, ...this.ownExtensions] : this.ownExtensions
     const normalizedTags = normalizeTags(options?.tags)
-    this.tags = normalizedTags ? Object.freeze(normalizedTags) : noTags
+    if (parent) {
+      const tagKeys = new Set(normalizedTags?.map((tagged) => tagged.key))
+      const tags = [...normalizedTags ?? [], ...parent.tags.filter((tagged) => !tagKeys.has(tagged.key))]
+      this.tags = tags.length ? Object.freeze(tags) : noTags
+      this.forked = { parent, presets: new Set(options?.presets?.map((p) => p.target)), tagKeys, owned: new Map() }
+      if (parent.presets) this.presets = new Map(parent.presets)
+    } else {
+      this.tags = normalizedTags ? Object.freeze(normalizedTags) : noTags
+    }
     if (this.extensions.length) {
       this.resolveExts = this.extensions.filter(e => e.wrapResolve)
       this.execExts = this.extensions.filter(e => e.wrapExec)
+      this.compensateExts = this.extensions.filter(e => e.wrapCompensate)
       this.contextExts = this.extensions.filter(e => e.initContext || e.disposeContext)
     } else {
       this.resolveExts = noExtensions
       this.execExts = noExtensions
+      this.compensateExts = noExtensions
       this.contextExts = noExtensions
     }
 
@@ -1033,21 +1436,159 @@ class ScopeImpl implements Lite.Scope {
       ;(this.presets ??= new Map()).set(p.target, p.value)
     }
 
+    if (options?.validate) this.validateGraph(options.validate)
+
+    if (options?.hydrate) {
+      assertSerializable(options.hydrate)
+      const names = Object.keys(options.hydrate)
+      if (names.length) this.hydration = new Map(names.map(name => [name, options.hydrate![name]!]))
+    }
+
     this.gcOptions = {
       enabled: options?.gc?.enabled ?? true,
       graceMs: options?.gc?.graceMs ?? 3000,
     }
 
-    if (this.extensions.some(extension => extension.init)) {
-      this.ready = this.init()
+    const parentReady = parent && !parent.initialized ? parent.initializing : undefined
+    if (parentReady || this.ownExtensions.some(extension => extension.init)) {
+      this.ready = this.initializing = this.init(parentReady)
     } else {
       this.initialized = true
-      this.ready = complete
+      this.ready = this.initializing = complete
+    }
+
+    const warm = options?.warm
+    if (warm?.length) {
+      const warmed = this.ready.then(() => this.warm(warm))
+      warmed.catch(() => {})
+      this.ready = warmed
+    }
+  }
+
+  private validateGraph(validate: true | readonly Lite.Dependency[]): void {
+    const roots: Lite.Dependency[] = []
+    if (this.presets) for (const target of this.presets.keys()) roots.push(target as Lite.Dependency)
+    if (validate !== true) roots.push(...validate)
+    for (const root of roots) {
+      if (isFlow(root)) {
+        if (!root.deps) continue
+        const graph = classifyDeps(root.deps)
+        for (const [, atom] of graph.atoms) this.assertAcyclic(atom)
+        for (const [, ctrl] of graph.controllers) this.assertAcyclic((ctrl.atom ?? ctrl.resource)!)
+        for (const [, resource] of graph.resources) this.assertAcyclic(resource)
+      } else if (isAtom(root) || isResource(root)) {
+        this.assertAcyclic(root)
+      } else if (isControllerDep(root)) {
+        const target = (root as Lite.ControllerDep<unknown>).atom ?? (root as Lite.ControllerDep<unknown>).resource
+        if (target) this.assertAcyclic(target)
+      }
+    }
+  }
+
+  private presetTarget(node: CycleNode): CycleNode | null {
+    if (!this.presets?.has(node)) return node
+    const value = this.presets.get(node)
+    return isAtom(value) || isResource(value) ? value : null
+  }
+
+  private assertAcyclic(node: CycleNode): void {
+    const start = this.presetTarget(node)
+    if (!start?.deps) return
+    const cycle = findDependencyCycle(start, this.acyclic ??= new WeakSet(), next => this.presetTarget(next))
+    if (cycle) throw cycleError(cycle)
+  }
+
+  warm(targets: readonly Lite.Atom<unknown>[], options?: Lite.WarmOptions): Promise<void> {
+    if (this.disposed) return Promise.reject(new Error("Scope is disposed"))
+    try {
+      for (let i = 0; i < targets.length; i++) this.assertAcyclic(targets[i]!)
+    } catch (error) {
+      return Promise.reject(error)
+    }
+
+    const waiting = new Map<Lite.Atom<unknown>, number>()
+    const dependents = new Map<Lite.Atom<unknown>, Lite.Atom<unknown>[]>()
+    const queue: Lite.Atom<unknown>[] = []
+    const collect = (atom: Lite.Atom<unknown>): void => {
+      if (waiting.has(atom)) return
+      const deps = this.warmDeps(atom)
+      waiting.set(atom, deps.size)
+      for (const dep of deps) {
+        collect(dep)
+        const list = dependents.get(dep)
+        if (list) list.push(atom)
+        else dependents.set(dep, [atom])
+      }
+      if (deps.size === 0) queue.push(atom)
+    }
+    for (let i = 0; i < targets.length; i++) collect(targets[i]!)
+
+    const limit = Math.max(1, options?.concurrency ?? Infinity)
+    const failures: Lite.WarmupFailure[] = []
+    let remaining = waiting.size
+    let running = 0
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        if (remaining > 0) return
+        if (!failures.length) return resolve()
+        const order = [...waiting.keys()]
+        failures.sort((a, b) => order.indexOf(a.atom) - order.indexOf(b.atom))
+        reject(new WarmupError(failures))
+      }
+      const skip = (atom: Lite.Atom<unknown>): void => {
+        for (const dependent of dependents.get(atom) ?? []) {
+          if (waiting.get(dependent)! <= 0) continue
+          waiting.set(dependent, -1)
+          remaining--
+          skip(dependent)
+        }
+      }
+      const pump = (): void => {
+        while (running < limit && queue.length) {
+          const atom = queue.shift()!
+          running++
+          this.resolve(atom).then(() => {
+            for (const dependent of dependents.get(atom) ?? []) {
+              const count = waiting.get(dependent)! - 1
+              waiting.set(dependent, count)
+              if (count === 0) queue.push(dependent)
+            }
+          }, (error: unknown) => {
+            failures.push({ atom, error })
+            skip(atom)
+          }).finally(() => {
+            running--
+            remaining--
+            pump()
+            settle()
+          })
+        }
+      }
+      pump()
+      settle()
+    })
+  }
+
+  private warmDeps(atom: Lite.Atom<unknown>): Set<Lite.Atom<unknown>> {
+    const deps = new Set<Lite.Atom<unknown>>()
+    if (this.presets?.has(atom)) {
+      const value = this.presets.get(atom)
+      if (isAtom(value)) deps.add(value)
+      return deps
+    }
+    if (!atom.deps) return deps
+    const graph = classifyDeps(atom.deps)
+    for (const [, dep] of graph.atoms) deps.add(dep)
+    for (const [, ctrl] of graph.controllers) {
+      if (ctrl.resolve && ctrl.atom) deps.add(ctrl.atom)
     }
+    return deps
   }
 
-  private async init(): Promise<void> {
-    for (const ext of this.extensions) {
+  private async init(parentReady?: Promise<void>): Promise<void> {
+    if (parentReady) await parentReady
+    for (const ext of this.ownExtensions) {
       if (ext.init) {
         await ext.init(this)
       }
@@ -1055,8 +1596,99 @@ class ScopeImpl implements Lite.Scope {
     this.initialized = true
   }
 
+  fork(options?: Lite.ForkOptions): Lite.Scope {
+    if (this.disposed) throw new Error("Scope is disposed")
+    const child = new ScopeImpl({ ...options, gc: this.gcOptions }, this)
+    ;(this.forks ??= new Set()).add(child)
+    return child
+  }
+
+  private shared(atom: Lite.Atom<unknown>): ScopeImpl | undefined {
+    const forked = this.forked
+    if (!forked) return undefined
+    let owned = forked.owned.get(atom)
+    if (owned === undefined) {
+      forked.owned.set(atom, false)
+      owned = this.diverges(atom, forked)
+      forked.owned.set(atom, owned)
+    }
+    return owned ? undefined : forked.parent
+  }
+
+  private diverges(atom: Lite.Atom<unknown>, forked: ForkState): boolean {
+    if (forked.presets.has(atom)) return true
+    if (this.presets?.has(atom)) {
+      const value = this.presets.get(atom)
+      return isAtom(value) && !this.shared(value)
+    }
+    if (!atom.deps) return false
+    const graph = classifyDeps(atom.deps)
+    return graph.atoms.some(([, dep]) => !this.shared(dep))
+      || graph.controllers.some(([, dep]) => isAtomControllerDep(dep) && !this.shared(dep.atom))
+      || graph.tags.some(([, executor]) => forked.tagKeys.has(executor.tag.key))
+  }
+
   getEntry<T>(atom: Lite.Atom<T>): AtomEntry<T> | undefined {
-    return this.cache.get(atom) as AtomEntry<T> | undefined
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.getEntry(atom)
+    const entry = this.cache.get(atom) as AtomEntry<T> | undefined
+    return entry || !this.hydration ? entry : this.hydrateEntry(atom)
+  }
+
+  private hydrateEntry<T>(atom: Lite.Atom<T>): AtomEntry<T> | undefined {
+    if (!atom.serializable || this.presets?.has(atom)) return undefined
+    const name = atom.name!
+    const claimed = this.hydratedBy?.get(name)
+    if (claimed) {
+      if (claimed !== atom) throw new Error(`Duplicate serializable atom name: ${name}`)
+      return undefined
+    }
+    const hydration = this.hydration!
+    if (!hydration.has(name)) return undefined
+    const entry = new AtomEntryImpl<T>(this.createGeneration())
+    entry.generation.started = true
+    entry.state = 'resolved'
+    entry.value = hydration.get(name) as T
+    entry.hasValue = true
+    ;(this.hydratedBy ??= new Map()).set(name, atom as Lite.Atom<unknown>)
+    this.cache.set(atom, entry as AtomEntry<unknown>)
+    if (atom.refresh) this.markRefreshed(atom, entry)
+    if (atom.deps) this.trackHydratedDeps(atom, entry)
+    return entry
+  }
+
+  private trackHydratedDeps<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    const generation = entry.generation
+    const pending = this.hydratedDeps ??= new Set()
+    const tracking: Promise<void> = Promise.resolve().then(async () => {
+      if (this.disposed || this.cache.get(atom) !== entry || entry.generation !== generation) return
+      await this.resolveDeps(atom.deps, undefined, atom as Lite.Atom<unknown>)
+    }).catch((error: unknown) => {
+      this.chainError = error
+    }).finally(() => {
+      pending.delete(tracking)
+    })
+    pending.add(tracking)
+  }
+
+  snapshot(): Lite.Snapshot {
+    const snapshot: Record<string, Lite.JsonValue> = {}
+    for (const [atom, entry] of this.cache) {
+      if (!atom.serializable || entry.state !== 'resolved' || !entry.hasValue) continue
+      const name = atom.name!
+      if (Object.hasOwn(snapshot, name)) throw new Error(`Duplicate serializable atom name: ${name}`)
+      try {
+        assertSerializable(entry.value)
+      } catch (error) {
+        throw new TypeError(`Atom "${name}" is not serializable: ${(error as Error).message}`, { cause: error })
+      }
+      snapshot[name] = entry.value
+    }
+    return snapshot
+  }
+
+  nextCompensationSeq(): number {
+    return ++this.compensationSeq
   }
 
   executionContextCloseReason(): DOMException {
@@ -1130,7 +1762,7 @@ class ScopeImpl implements Lite.Scope {
   }
 
   private getOrCreateEntry<T>(atom: Lite.Atom<T>): AtomEntry<T> {
-    let entry = this.cache.get(atom) as AtomEntry<T> | undefined
+    let entry = this.getEntry(atom)
     if (!entry) {
       entry = new AtomEntryImpl(this.createGeneration())
       this.cache.set(atom, entry as AtomEntry<unknown>)
@@ -1199,12 +1831,16 @@ class ScopeImpl implements Lite.Scope {
     return !!(entry.resolvingListeners?.size || entry.resolvedListener || entry.resolvedListeners?.size || entry.allListeners?.size || entry.valueListeners?.size)
   }
 
+  private hasDependents(entry: AtomEntry<unknown>): boolean {
+    return !!(entry.dependents?.size || entry.forkDependents?.size)
+  }
+
   private canQueueGC<T>(atom: Lite.Atom<T>, entry: AtomEntry<unknown>): boolean {
     return this.gcOptions.enabled
       && !atom.keepAlive
       && entry.state !== 'idle'
       && !this.hasSubscribers(entry)
-      && !entry.dependents?.size
+      && !this.hasDependents(entry)
       && !entry.gcScheduled
       && !entry.gcQueued
   }
@@ -1213,14 +1849,14 @@ class ScopeImpl implements Lite.Scope {
     return !this.disposed
       && this.cache.get(atom) === entry
       && !this.hasSubscribers(entry)
-      && !entry.dependents?.size
+      && !this.hasDependents(entry)
       && !entry.gcScheduled
   }
 
   private scheduleGCTimer<T>(atom: Lite.Atom<T>, entry: AtomEntry<unknown>): void {
-    entry.gcScheduled = setTimeout(() => {
+    entry.gcScheduled = unrefTimer(setTimeout(() => {
       void this.executeGC(atom)
-    }, this.gcOptions.graceMs)
+    }, this.gcOptions.graceMs))
   }
 
   private cancelGCTimer<T>(entry: AtomEntry<T>): void {
@@ -1229,14 +1865,143 @@ class ScopeImpl implements Lite.Scope {
     entry.gcScheduled = null
   }
 
+  private markRefreshed<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    entry.refreshedAt = clockNow()
+    entry.refreshing = false
+    this.scheduleRefreshTimer(atom, entry)
+  }
+
+  private scheduleRefreshTimer<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    this.cancelRefreshTimer(entry)
+    const intervalMs = atom.refresh?.intervalMs
+    if (intervalMs === undefined || this.disposed) return
+    entry.refreshScheduled = unrefTimer(setTimeout(() => {
+      entry.refreshScheduled = undefined
+      if (this.disposed || this.cache.get(atom) !== entry || entry.state !== 'resolved') return
+      if (this.hasSubscribers(entry as AtomEntry<unknown>) || this.hasDependents(entry as AtomEntry<unknown>)) this.refreshEntry(atom, entry)
+      else this.scheduleRefreshTimer(atom, entry)
+    }, intervalMs))
+  }
+
+  private cancelRefreshTimer<T>(entry: AtomEntry<T>): void {
+    if (!entry.refreshScheduled) return
+    clearTimeout(entry.refreshScheduled)
+    entry.refreshScheduled = undefined
+  }
+
+  private isStale<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): boolean {
+    const staleMs = atom.refresh?.staleMs
+    return staleMs !== undefined && !entry.refreshing && clockNow() - entry.refreshedAt! >= staleMs
+  }
+
+  private refreshEntry<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    entry.refreshing = true
+    this.scheduleInvalidation(atom, entry, this.taintContext())
+  }
+
+  private async readPersisted<T>(atom: Lite.Atom<T>): Promise<{ value: T } | undefined> {
+    const policy = atom.persist!
+    try {
+      const raw = await policy.storage.getItem(persistKey(atom as Lite.Atom<unknown>))
+      if (raw == null) return undefined
+      const stored = JSON.parse(raw) as { version?: number; value: Lite.JsonValue }
+      const version = policy.version ?? 0
+      const from = stored.version ?? 0
+      if (from === version) return { value: await parsePersisted(atom, stored.value) }
+      if (from > version) {
+        throw new Error(`Persisted value "${persistKey(atom as Lite.Atom<unknown>)}" has version ${from}, newer than ${version}`)
+      }
+      if (!policy.migrate) return undefined
+      const migrated = await policy.migrate(stored.value, from)
+      assertSerializable(migrated)
+      const value = await parsePersisted(atom, migrated)
+      this.writePersisted(atom, value)
+      return { value }
+    } catch (error) {
+      this.reportPersistError(atom, error)
+      return undefined
+    }
+  }
+
+  private persistValue<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    const debounceMs = atom.persist!.debounceMs
+    if (debounceMs === undefined) this.writePersisted(atom, entry.value as T)
+    else this.schedulePersistTimer(atom, entry, debounceMs)
+  }
+
+  private schedulePersistTimer<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, debounceMs: number): void {
+    if (entry.persistScheduled) clearTimeout(entry.persistScheduled)
+    entry.persistScheduled = setTimeout(() => {
+      entry.persistScheduled = undefined
+      this.writePersisted(atom, entry.value as T)
+    }, debounceMs)
+  }
+
+  private flushPersistTimer<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): Promise<void> {
+    clearTimeout(entry.persistScheduled)
+    entry.persistScheduled = undefined
+    return this.writePersisted(atom, entry.value as T)
+  }
+
+  private writePersisted<T>(atom: Lite.Atom<T>, value: T): Promise<void> {
+    const policy = atom.persist!
+    const writes = this.persistWrites ??= new Map()
+    const previous = writes.get(atom as Lite.Atom<unknown>)
+    const write = (async () => {
+      if (previous) await previous
+      try {
+        assertSerializable(value)
+        await policy.storage.setItem(persistKey(atom as Lite.Atom<unknown>), JSON.stringify({ version: policy.version ?? 0, value }))
+      } catch (error) {
+        this.reportPersistError(atom, error)
+      }
+    })()
+    writes.set(atom as Lite.Atom<unknown>, write)
+    void write.then(() => {
+      if (writes.get(atom as Lite.Atom<unknown>) === write) writes.delete(atom as Lite.Atom<unknown>)
+    })
+    return write
+  }
+
+  private reportPersistError<T>(atom: Lite.Atom<T>, error: unknown): void {
+    const failure = error instanceof Error ? error : new Error(String(error))
+    const onError = atom.persist!.onError
+    if (onError) onError(failure)
+    else (this.backgroundErrors ??= []).push(failure)
+  }
+
   private canExecuteGC(entry: AtomEntry<unknown>): boolean {
-    return !this.hasSubscribers(entry) && !entry.dependents?.size
+    return !this.hasSubscribers(entry) && !this.hasDependents(entry)
   }
 
-  private trackDependent<T>(atom: Lite.Atom<T>, dependentAtom?: Lite.Atom<unknown>): void {
+  private trackDependent<T>(atom: Lite.Atom<T>, dependentAtom?: Lite.Atom<unknown>, fork?: ScopeImpl): void {
     if (!dependentAtom) return
-    const entry = this.getEntry(atom)
-    if (entry) (entry.dependents ??= new Set()).add(dependentAtom)
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.trackDependent(atom, dependentAtom, fork ?? this)
+    const entry = this.cache.get(atom)
+    if (!entry) return
+    if (!fork) {
+      (entry.dependents ??= new Set()).add(dependentAtom)
+      return
+    }
+    const forkDependents = entry.forkDependents ??= new Map()
+    let atoms = forkDependents.get(fork)
+    if (!atoms) forkDependents.set(fork, atoms = new Set())
+    atoms.add(dependentAtom)
+  }
+
+  private untrackDependent(atom: Lite.Atom<unknown>, dependentAtom: Lite.Atom<unknown>, fork?: ScopeImpl): void {
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.untrackDependent(atom, dependentAtom, fork ?? this)
+    const entry = this.cache.get(atom)
+    if (!fork) {
+      entry?.dependents?.delete(dependentAtom)
+    } else {
+      const atoms = entry?.forkDependents?.get(fork)
+      atoms?.delete(dependentAtom)
+      if (atoms?.size === 0) entry!.forkDependents!.delete(fork)
+    }
+    this.maybeScheduleGCEntry(atom)
   }
 
   private maybeScheduleGCEntry<T>(atom: Lite.Atom<T>, entry?: AtomEntry<unknown>): void {
@@ -1269,8 +2034,7 @@ class ScopeImpl implements Lite.Scope {
         const dep = atom.deps[key]!
         const depAtom = isControllerDep(dep) && isAtomControllerDep(dep) ? dep.atom : dep
         if (!isAtom(depAtom)) continue
-        this.cache.get(depAtom)?.dependents?.delete(atom)
-        this.maybeScheduleGCEntry(depAtom)
+        this.untrackDependent(depAtom, atom)
       }
     }
   }
@@ -1290,8 +2054,11 @@ class ScopeImpl implements Lite.Scope {
           const previous = edge.previous
           edge.previous = entry.value
           if (!edge.eq(previous, entry.value)) {
-            if (cascade) this.invalidationChain?.delete(edge.target)
-            this.scheduleInvalidation(edge.target, undefined, tainted)
+            if (edge.scope !== this) edge.scope.scheduleInvalidation(edge.target, undefined, edge.scope.taintContext())
+            else {
+              if (cascade) this.invalidationChain?.delete(edge.target)
+              this.scheduleInvalidation(edge.target, undefined, tainted)
+            }
           }
         } catch (error) {
           failures.push(error)
@@ -1331,6 +2098,8 @@ class ScopeImpl implements Lite.Scope {
     listener: (...args: Args) => void,
     ...params: Args
   ): () => void {
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.on(event, atom, listener, ...params)
     const stateListeners = this.stateListeners ??= new Map()
     let stateMap = stateListeners.get(event)
     if (!stateMap) {
@@ -1387,7 +2156,7 @@ class ScopeImpl implements Lite.Scope {
     try {
       for (let i = 0; i < graph.atoms.length; i++) {
         const [key, dep] = graph.atoms[i]!
-        let cachedEntry = this.cache.get(dep)
+        let cachedEntry = this.getEntry(dep)
         if (cachedEntry?.state !== 'resolved') {
           if (isAsyncFactory(dep.factory)) return null
           const pending = this.tryResolveCurrentTick(dep, path)
@@ -1457,11 +2226,24 @@ class ScopeImpl implements Lite.Scope {
             break
           }
           case "all": {
-            const values = tagExecutor.tag.collect(this.tags)
+            const values = tagExecutor.attributes
+              ? matchTagged(tagExecutor, this.tagCarriers(tagExecutor.tag).flat())
+              : tagExecutor.tag.collect(this.tags)
             if (values.some((value) => isFlow(value))) return null
             result[key] = values
             break
           }
+          case "pick": {
+            let value: unknown
+            try {
+              value = pickTagged(tagExecutor, this.tagCarriers(tagExecutor.tag))
+            } catch {
+              return null
+            }
+            if (isFlow(value)) return null
+            result[key] = value
+            break
+          }
         }
       }
 
@@ -1475,7 +2257,7 @@ class ScopeImpl implements Lite.Scope {
   }
 
   private tryResolveCurrentTick<T>(atom: Lite.Atom<T>, path?: Set<Lite.Atom<unknown>>): Promise<T> | null {
-    if (this.hasResolvePipeline()) return null
+    if (this.hasResolvePipeline() || atom.persist || (this.forked && this.shared(atom))) return null
     if (this.presets?.has(atom) || this.releasing?.has(atom)) return null
 
     const entry = this.getOrCreateEntry(atom)
@@ -1604,6 +2386,7 @@ class ScopeImpl implements Lite.Scope {
   }
 
   private handlePostResolve<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>): void {
+    if (atom.refresh) this.markRefreshed(atom, entry)
     if (entry.pendingInvalidate) {
       const tainted = entry.pendingInvalidate === 2
       entry.pendingInvalidate = 0
@@ -1631,17 +2414,25 @@ class ScopeImpl implements Lite.Scope {
 
   resolve<T>(atom: Lite.Atom<T>): Promise<T> {
     if (this.disposed) return Promise.reject(new Error("Scope is disposed"))
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.resolve(atom)
 
     const flight = this.releasing?.get(atom)
     if (flight) return flight.promise.then(() => this.resolve(atom))
 
     if (!this.initialized) {
-      if (!this.ready) return this.resolveAndTrack(atom)
-      return this.ready.then(() => this.resolve(atom))
+      if (!this.initializing) return this.resolveAndTrack(atom)
+      return this.initializing.then(() => this.resolve(atom))
     }
 
-    const entry = this.cache.get(atom) as AtomEntry<T> | undefined
+    let entry: AtomEntry<T> | undefined
+    try {
+      entry = this.getEntry(atom)
+    } catch (error) {
+      return Promise.reject(error)
+    }
     if (entry?.state === 'resolved') {
+      if (entry.refreshedAt !== undefined && this.isStale(atom, entry)) this.refreshEntry(atom, entry)
       return entry.resolvedPromise ?? (entry.resolvedPromise = Promise.resolve(entry.value as T))
     }
 
@@ -1669,6 +2460,14 @@ class ScopeImpl implements Lite.Scope {
       return Promise.resolve(newEntry.value)
     }
 
+    if (atom.deps && !this.acyclic?.has(atom)) {
+      try {
+        this.assertAcyclic(atom)
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    }
+
     if (isAsyncFactory(atom.factory)) return this.resolveAndTrack(atom)
 
     const syncResult = this.tryResolveCurrentTick(atom)
@@ -1730,30 +2529,37 @@ class ScopeImpl implements Lite.Scope {
       const resolvedDeps = depsResult != null && typeof (depsResult as any).then === 'function'
         ? await (depsResult as Promise<Record<string, unknown>>)
         : depsResult as Record<string, unknown>
+      const stored = atom.persist && !entry.hasValue ? await this.readPersisted(atom) : undefined
+      const produce = (): MaybePromise<T> => stored ? stored.value : atom.deps ? factory(ctx, resolvedDeps) : factory(ctx)
       let value: T
       if (!this.hasResolvePipeline()) {
-        const raw = atom.deps ? factory(ctx, resolvedDeps) : factory(ctx)
+        const raw = produce()
         value = raw != null && typeof (raw as any).then === 'function' ? await (raw as Promise<T>) : raw as T
       } else {
-        const doResolve = async () => atom.deps ? factory(ctx, resolvedDeps) : factory(ctx)
+        const doResolve = async () => produce()
         const event: Lite.ResolveEvent = { kind: "atom", target: atom as Lite.Atom<unknown>, scope: this, ctx }
         value = await this.applyResolvePipeline(event, doResolve)
       }
+      const unchanged = this.keepsValue(atom, entry, value)
+      if (unchanged) value = entry.value as T
       entry.state = 'resolved'
       entry.value = value
       entry.hasValue = true
       entry.error = undefined
       entry.resolvedPromise = Promise.resolve(value)
       this.emitStateChange('resolved', atom, listenerErrors)
-      this.notifyEntry(entry as AtomEntry<unknown>, 'resolved', listenerErrors, atom === this.drainTarget && !this.drainTainted)
+      if (unchanged) notifyListeners(this.notifyDepth, entry.allListeners, listenerErrors)
+      else this.notifyEntry(entry as AtomEntry<unknown>, 'resolved', listenerErrors, atom === this.drainTarget && !this.drainTainted)
       this.handlePostResolve(atom, entry)
       throwListenerErrors(listenerErrors)
 
       return value
     } catch (err) {
       if (entry.state === 'resolved') throw err
+      const error = err instanceof Error ? err : new Error(String(err))
+      if (entry.refreshing && entry.hasValue) return this.keepRefreshedValue(atom, entry, error, listenerErrors)
       entry.state = 'failed'
-      entry.error = err instanceof Error ? err : new Error(String(err))
+      entry.error = error
       entry.value = undefined
       entry.hasValue = false
       this.emitStateChange('failed', atom, listenerErrors)
@@ -1764,6 +2570,24 @@ class ScopeImpl implements Lite.Scope {
     }
   }
 
+  private keepRefreshedValue<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, error: Error, listenerErrors: unknown[]): T {
+    const value = entry.value as T
+    const held = entry.heldCleanups
+    entry.heldCleanups = undefined
+    if (held?.length) entry.generation.cleanups = [...held, ...entry.generation.cleanups ?? []]
+    entry.state = 'resolved'
+    entry.error = undefined
+    entry.resolvedPromise = Promise.resolve(value)
+    this.emitStateChange('resolved', atom, listenerErrors)
+    notifyListeners(this.notifyDepth, entry.allListeners, listenerErrors)
+    this.handlePostResolve(atom, entry)
+    const onError = atom.refresh!.onError
+    if (onError) onError(error)
+    else (this.backgroundErrors ??= []).push(error)
+    throwListenerErrors(listenerErrors)
+    return value
+  }
+
   private hasResolvePipeline(): boolean {
     return this.resolveExts.length > 0
   }
@@ -1800,7 +2624,7 @@ class ScopeImpl implements Lite.Scope {
 
     for (let i = 0; i < graph.atoms.length; i++) {
       const [key, dep] = graph.atoms[i]!
-      const cachedEntry = this.cache.get(dep)
+      const cachedEntry = this.getEntry(dep)
       if (cachedEntry?.state === 'resolved') {
         result[key] = cachedEntry.value
         this.trackDependent(dep, dependentAtom)
@@ -1911,7 +2735,9 @@ class ScopeImpl implements Lite.Scope {
           break
         }
         case "all": {
-          const values = ctx
+          const values = tagExecutor.attributes
+            ? matchTagged(tagExecutor, this.tagCarriers(tagExecutor.tag, ctx, activationTags).flat())
+            : ctx
             ? [
                 ...tagExecutor.tag.collect(activationTags ?? []),
                 ...this.collectFromHierarchy(
@@ -1924,6 +2750,11 @@ class ScopeImpl implements Lite.Scope {
           result[key] = values.map((value) => this.projectTagValue(value, ctx, flowPath, activationTags, parallel))
           break
         }
+        case "pick": {
+          const value = pickTagged(tagExecutor, this.tagCarriers(tagExecutor.tag, ctx, activationTags))
+          result[key] = this.projectTagValue(value, ctx, flowPath, activationTags, parallel)
+          break
+        }
       }
     }
 
@@ -1979,7 +2810,8 @@ class ScopeImpl implements Lite.Scope {
     const nextPath = new Set(path)
     nextPath.add(flow)
     const inherited = inheritedTags ?? []
-    const presetValue = this.getFlowPreset(flow)
+    assertExecutionContextImpl(ctx)
+    const presetValue = ctx.flowPreset(flow)
     const localTags = execTags?.length || flow.tags?.length
       ? [
           ...(execTags ?? []),
@@ -2003,15 +2835,29 @@ class ScopeImpl implements Lite.Scope {
     return isPromiseLike(activation) ? Promise.resolve(activation).then(() => {}) : undefined
   }
 
-  private createFlowHandle<Output, Input, Yield>(
-    flow: Lite.Flow<Output, Input, any, Yield>,
+  private createFlowHandle<Output, Input, Yield, Fault>(
+    flow: Lite.Flow<Output, Input, Fault, Yield>,
     ctx: Lite.ExecutionContext,
     defaults?: Lite.FlowControllerOptions<Input>
-  ): Lite.FlowHandle<Output, Input, Yield> {
+  ): Lite.FlowHandle<Output, Input, Yield, Fault> {
+    const mapFaults = (defaults as Lite.FlowControllerDep<Output, Input, Yield, Fault> | undefined)?.mapFaults
+    const tryExec = (execCtx: Lite.ExecutionContext, options: Lite.FlowPrepareOptions<Input> | Lite.FlowExecOptions<Input> | {}) => {
+      const { key: _key, mapFaults: _mapFaults, ...execOptions } = options as Lite.FlowPrepareOptions<Input> & { mapFaults?: unknown }
+      const result = execCtx.tryExec({ flow, ...execOptions } as Lite.ExecFlowOptions<Output, Input> & { flow: Lite.Flow<Output, Input, Fault, any> })
+      return mapFaults ? result.then((settled) => translateFault(settled, flow, ctx, mapFaults)) : result
+    }
+    const execFlow = (execCtx: Lite.ExecutionContext, options: Lite.FlowPrepareOptions<Input> | Lite.FlowExecOptions<Input> | {}) => {
+      return mapFaults
+        ? tryExec(execCtx, options).then((result) => unwrapExecResult(result, ctx))
+        : this.execFlowHandle(flow, execCtx, options)
+    }
     return {
       flow,
       exec: (...args: Lite.FlowExecArgs<Input>) => {
-        return this.execFlowHandle(flow, ctx, this.mergeFlowOptions(defaults, args[0] ?? {}))
+        return execFlow(ctx, this.mergeFlowOptions(defaults, args[0] ?? {}))
+      },
+      tryExec: (...args: Lite.FlowExecArgs<Input>) => {
+        return tryExec(ctx, this.mergeFlowOptions(defaults, args[0] ?? {}))
       },
       execStream: (...args: Lite.FlowExecArgs<Input>) => {
         return ctx.execStream({ flow, ...this.mergeFlowOptions(defaults, args[0] ?? {}) } as Lite.ExecFlowOptions<Output, Input, Yield>)
@@ -2066,7 +2912,7 @@ class ScopeImpl implements Lite.Scope {
             consume()
             await ready
             try {
-              const output = await this.execFlowHandle(flow, preparedCtx, options)
+              const output = await execFlow(preparedCtx, options)
               unregister()
               await preparedCtx.close({ ok: true })
               return output
@@ -2175,6 +3021,7 @@ class ScopeImpl implements Lite.Scope {
     const entry = this.getEntry(dep.atom)!
     const edge: WatchEdge = {
       target: dependentAtom,
+      scope: this,
       previous: entry.value,
       eq: dep.eq ?? shallowEqual,
     }
@@ -2233,6 +3080,23 @@ class ScopeImpl implements Lite.Scope {
       : r as Record<string, unknown>
   }
 
+  private tagCarriers(
+    tag: Lite.Tag<any, boolean>,
+    ctx?: Lite.ExecutionContext,
+    activationTags?: Lite.Tagged<any>[],
+  ): TagCarrier[][] {
+    if (!ctx) return [this.tags.filter((tagged) => tagged.key === tag.key)]
+    const activation = activationTags?.filter((tagged) => tagged.key === tag.key) ?? []
+    const levels: TagCarrier[][] = activation.length > 0 ? [activation] : []
+    let current: Lite.ExecutionContext | undefined = ctx
+    for (let first = true; current; first = false) {
+      assertExecutionContextImpl(current)
+      if (!first || activation.length === 0) levels.push(current.dataImpl().collectCarriers(tag))
+      current = current.parent
+    }
+    return levels
+  }
+
   private collectFromHierarchy<T>(
     ctx: Lite.ExecutionContext,
     tag: Lite.Tag<T, boolean>,
@@ -2257,6 +3121,8 @@ class ScopeImpl implements Lite.Scope {
   controller<T>(atom: Lite.Atom<T>, options?: Lite.ControllerOptions): Lite.Controller<T> | Promise<Lite.Controller<T>>
   controller<T>(atom: Lite.Atom<T>, options?: Lite.ControllerOptions): Lite.Controller<T> | Promise<Lite.Controller<T>> {
     if (this.disposed) throw new Error("Scope is disposed")
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.controller(atom, options)
     let ctrl = this.controllers.get(atom) as ControllerImpl<T> | undefined
     if (!ctrl) {
       ctrl = new ControllerImpl(atom, this)
@@ -2287,6 +3153,8 @@ class ScopeImpl implements Lite.Scope {
   ): AsyncIterable<T> | AsyncIterable<Lite.AtomChange<T>> {
     if (this.disposed) throw new Error("Scope is disposed")
     if (!isAtom(target)) return this.selectChanges(target)
+    const parent = this.forked && this.shared(target)
+    if (parent) return options ? parent.changes(target, options) : parent.changes(target)
     return options ? this.atomChanges(target, options) : this.atomChanges(target)
   }
 
@@ -2320,7 +3188,7 @@ class ScopeImpl implements Lite.Scope {
     stream.onClose((subscriptions) => {
       for (let i = subscriptions.length - 1; i >= 0; i--) subscriptions[i]!()
     }, unsubs)
-    const entry = this.cache.get(atom) as AtomEntry<T> | undefined
+    const entry = this.getEntry(atom)
     if (entry?.state === "resolved" || entry?.state === "failed" || entry?.state === "resolving") {
       emit()
     }
@@ -2344,6 +3212,8 @@ class ScopeImpl implements Lite.Scope {
 
   resolveStream<T>(atom: Lite.Atom<StreamSource<T>>): AsyncIterable<T> {
     if (this.disposed) throw new Error("Scope is disposed")
+    const parent = this.forked && this.shared(atom)
+    if (parent) return parent.resolveStream(atom)
     const presetValue = this.presets?.get(atom as Lite.Atom<unknown>)
     if (isAtom(presetValue)) return this.resolveStream(presetValue as Lite.Atom<StreamSource<T>>)
     const hub = this.getStreamHub(atom)
@@ -2498,8 +3368,8 @@ class ScopeImpl implements Lite.Scope {
     hub.unsubs = []
   }
 
-  getFlowPreset<O, I, Y>(flow: Lite.Flow<O, I, any, Y>): Lite.PresetValue<O, I, Y> | undefined {
-    return this.presets?.get(flow as Lite.Flow<unknown, unknown, any, unknown>) as Lite.PresetValue<O, I, Y> | undefined
+  presetsFor(target: Lite.Flow<unknown, unknown, any, unknown> | Lite.Resource<unknown>): PresetMap | undefined {
+    return this.presets?.has(target) ? this.presets : undefined
   }
 
   resolveResource<T>(
@@ -2519,6 +3389,14 @@ class ScopeImpl implements Lite.Scope {
       return Promise.reject(new Error(`Circular resource dependency detected: ${resource.name ?? "anonymous"}`))
     }
 
+    if (resource.deps && !this.acyclic?.has(resource as Lite.Resource<unknown>)) {
+      try {
+        this.assertAcyclic(resource as Lite.Resource<unknown>)
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    }
+
     const found = receiverCtx.findResourceEntry(resource)
     if (found) {
       const entry = found.entry as ResourceEntry<T>
@@ -2580,8 +3458,9 @@ class ScopeImpl implements Lite.Scope {
     entry: ResourceEntry<T>,
     resourcePath: Set<Lite.Resource<unknown>>,
   ): Promise<T> {
-    if (this.presets?.has(resource)) {
-      const presetValue = this.presets.get(resource)
+    const presets = ownerCtx.presetsFor(resource as Lite.Resource<unknown>)
+    if (presets) {
+      const presetValue = presets.get(resource as Lite.Resource<unknown>)
       if (isResource(presetValue)) {
         return this.resolveResource(presetValue as Lite.Resource<T>, receiverCtx, resourcePath)
       }
@@ -2638,10 +3517,14 @@ class ScopeImpl implements Lite.Scope {
     this.scheduleInvalidation(atom, undefined, this.taintContext())
   }
 
+  private keepsValue<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, next: T): boolean {
+    return atom.eq !== undefined && entry.hasValue && atom.eq(entry.value as T, next)
+  }
+
   scheduleSet<T>(atom: Lite.Atom<T>, value: T, cachedEntry?: AtomEntry<T>): void {
     const entry = cachedEntry ?? (this.cache.get(atom) as AtomEntry<T> | undefined)
     if (!entry || entry.state === 'idle') {
-      throw new Error("Atom not resolved")
+      throw notResolvedError(atom)
     }
     if (entry.state === 'failed' && entry.error) {
       throw entry.error
@@ -2651,20 +3534,8 @@ class ScopeImpl implements Lite.Scope {
       entry.pendingSet = { hasValue: true, value, updates: [] }
       return
     }
-
-    entry.value = value
-    entry.state = 'resolved'
-    entry.hasValue = true
-    entry.error = undefined
-    entry.pendingInvalidate = 0
-    entry.resolvedPromise = undefined
-    if (!this.stateListeners && !entry.watchers?.size && !entry.allListeners?.size && !entry.valueListeners?.size) {
-      notifyListener(this.notifyDepth, entry.resolvedListener)
-      notifyListeners(this.notifyDepth, entry.resolvedListeners)
-      return
-    }
-    if (this.stateListeners) this.emitStateChange('resolved', atom)
-    this.notifyEntry(entry as AtomEntry<unknown>, 'resolved')
+    if (this.keepsValue(atom, entry, value)) return
+    this.writeValue(atom, entry, value)
   }
 
   scheduleUpdate<T>(
@@ -2674,7 +3545,7 @@ class ScopeImpl implements Lite.Scope {
   ): void {
     const entry = cachedEntry ?? (this.cache.get(atom) as AtomEntry<T> | undefined)
     if (!entry || entry.state === 'idle') {
-      throw new Error("Atom not resolved")
+      throw notResolvedError(atom)
     }
     if (entry.state === 'failed' && entry.error) {
       throw entry.error
@@ -2686,20 +3557,105 @@ class ScopeImpl implements Lite.Scope {
       entry.pendingSet = pending
       return
     }
+    const next = fn(entry.value as T)
+    if (this.keepsValue(atom, entry, next)) return
+    this.writeValue(atom, entry, next)
+  }
 
-    entry.value = fn(entry.value as T)
+  private writeValue<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, value: T): void {
+    const frame = this.batchFrames?.[this.batchFrames.length - 1]
+    if (frame && !frame.writes.has(atom)) frame.writes.set(atom, { entry: entry as AtomEntry<unknown>, before: entry.value })
+    entry.value = value
     entry.state = 'resolved'
     entry.hasValue = true
     entry.error = undefined
     entry.pendingInvalidate = 0
     entry.resolvedPromise = undefined
+    if (!frame) this.notifyWrite(atom, entry)
+  }
+
+  private notifyWrite<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, errors?: unknown[]): void {
+    if (atom.persist) this.persistValue(atom, entry)
     if (!this.stateListeners && !entry.watchers?.size && !entry.allListeners?.size && !entry.valueListeners?.size) {
-      notifyListener(this.notifyDepth, entry.resolvedListener)
-      notifyListeners(this.notifyDepth, entry.resolvedListeners)
+      notifyListener(this.notifyDepth, entry.resolvedListener, errors)
+      notifyListeners(this.notifyDepth, entry.resolvedListeners, errors)
       return
     }
-    if (this.stateListeners) this.emitStateChange('resolved', atom)
-    this.notifyEntry(entry as AtomEntry<unknown>, 'resolved')
+    if (this.stateListeners) this.emitStateChange('resolved', atom, errors)
+    this.notifyEntry(entry as AtomEntry<unknown>, 'resolved', errors)
+  }
+
+  batch<T>(fn: () => MaybePromise<T>): Promise<T> {
+    const frame: BatchFrame = { writes: new Map(), invalidations: new Map() }
+    ;(this.batchFrames ??= []).push(frame)
+    let result: MaybePromise<T>
+    try {
+      result = fn()
+    } catch (error) {
+      this.rollbackBatch(frame)
+      return Promise.reject(error)
+    }
+    if (!isPromiseLike(result)) {
+      try {
+        this.commitBatch(frame)
+      } catch (error) {
+        return Promise.reject(error)
+      }
+      return Promise.resolve(result)
+    }
+    return Promise.resolve(result).then(
+      (value) => {
+        this.commitBatch(frame)
+        return value
+      },
+      (error: unknown) => {
+        this.rollbackBatch(frame)
+        throw error
+      },
+    )
+  }
+
+  /** Removes a settled frame and returns the frame that was open when it started, if still open. */
+  private closeBatchFrame(frame: BatchFrame): BatchFrame | undefined {
+    const frames = this.batchFrames!
+    const index = frames.indexOf(frame)
+    frames.splice(index, 1)
+    if (frames.length === 0) this.batchFrames = undefined
+    return index > 0 ? frames[index - 1] : undefined
+  }
+
+  private rollbackBatch(frame: BatchFrame): void {
+    this.closeBatchFrame(frame)
+    for (const [atom, write] of frame.writes) {
+      if (this.cache.get(atom) === write.entry) write.entry.value = write.before
+    }
+    if (!this.batchFrames) this.flushSettledBatch()
+  }
+
+  private commitBatch(frame: BatchFrame): void {
+    const parent = this.closeBatchFrame(frame) ?? (this.settledBatch ??= { writes: new Map(), invalidations: new Map() })
+    for (const [atom, write] of frame.writes) {
+      if (!parent.writes.has(atom)) parent.writes.set(atom, write)
+    }
+    for (const [atom, tainted] of frame.invalidations) {
+      parent.invalidations.set(atom, parent.invalidations.get(atom) === true || tainted)
+    }
+    if (!this.batchFrames) this.flushSettledBatch()
+  }
+
+  private flushSettledBatch(): void {
+    const settled = this.settledBatch
+    if (!settled) return
+    this.settledBatch = undefined
+    const failures: unknown[] = []
+    for (const [atom, write] of settled.writes) {
+      const entry = write.entry
+      if (this.cache.get(atom) !== entry || entry.state !== 'resolved') continue
+      if (atom.eq?.(write.before, entry.value)) continue
+      this.notifyWrite(atom, entry, failures)
+    }
+    for (const [atom, tainted] of settled.invalidations) this.scheduleInvalidation(atom, undefined, tainted)
+    throwListenerErrors(failures)
   }
 
   private doInvalidateSequential<T>(atom: Lite.Atom<T>): void | Promise<void> {
@@ -2712,15 +3668,19 @@ class ScopeImpl implements Lite.Scope {
     entry.pendingSet = undefined
 
     if (pendingSet) {
-      entry.value = applyUpdates(
+      const next = applyUpdates(
         pendingSet.hasValue ? pendingSet.value as T : previousValue as T,
         pendingSet.updates,
       )
+      const unchanged = this.keepsValue(atom, entry, next)
+      if (!unchanged) entry.value = next
       entry.state = 'resolved'
       entry.hasValue = true
       entry.error = undefined
       entry.pendingInvalidate = 0
       entry.resolvedPromise = undefined
+      if (unchanged) return
+      if (atom.persist) this.persistValue(atom, entry)
       if (!this.stateListeners && !entry.watchers?.size && !entry.resolvedListener && !entry.resolvedListeners?.size && !entry.allListeners?.size && !entry.valueListeners?.size) return
       this.drainTarget = atom
       this.drainTainted = true
@@ -2739,7 +3699,7 @@ class ScopeImpl implements Lite.Scope {
       const chainAtoms = Array.from(this.invalidationChain)
       chainAtoms.push(atom)
       const path = chainAtoms
-        .map(a => a.factory?.name || "<anonymous>")
+        .map(atomLabel)
         .join(" → ")
       throw new Error(`Infinite invalidation loop detected: ${path}`)
     }
@@ -2754,7 +3714,8 @@ class ScopeImpl implements Lite.Scope {
       if (this.streamHubs?.has(atom as Lite.Atom<unknown>)) await this.stopStreamHubForAtom(atom as Lite.Atom<unknown>)
 
       const { generation, cleanups } = this.replaceGeneration(entry)
-      if (cleanups?.length) await runCleanupsSafe(cleanups)
+      if (entry.refreshing && entry.hasValue) entry.heldCleanups = cleanups
+      else if (cleanups?.length) await runCleanupsSafe(cleanups)
 
       if (this.cache.get(atom) !== entry || entry.generation !== generation) {
         await this.resolve(atom)
@@ -2773,6 +3734,10 @@ class ScopeImpl implements Lite.Scope {
         await this.resolve(atom)
       } catch (e) {
         if (!entry.pendingSet && !entry.pendingInvalidate) throw e
+      } finally {
+        const held = entry.heldCleanups
+        entry.heldCleanups = undefined
+        if (held?.length) await runCleanupsSafe(held)
       }
       throwListenerErrors(listenerErrors)
     } finally {
@@ -2801,7 +3766,18 @@ class ScopeImpl implements Lite.Scope {
     const generation = entry.generation
     this.cache.delete(atom)
 
-    const releasePromise = Promise.resolve().then(() => this.releaseEntry(atom, entry, generation))
+    const dependents: Promise<void>[] = []
+    if (entry.dependents) for (const dependent of entry.dependents) {
+      if (this.cache.has(dependent) || this.releasing?.has(dependent)) dependents.push(this.release(dependent))
+    }
+    if (entry.forkDependents) for (const [fork, atoms] of entry.forkDependents) {
+      for (const dependent of atoms) {
+        if (fork.cache.has(dependent) || fork.releasing?.has(dependent)) dependents.push(fork.release(dependent))
+      }
+    }
+    const releasePromise = dependents.length
+      ? this.releaseAfterDependents(atom, entry, generation, dependents)
+      : Promise.resolve().then(() => this.releaseEntry(atom, entry, generation))
     const releasing = this.releasing ??= new Map()
     releasing.set(atom, { entry, generation, promise: releasePromise })
     const finishRelease = () => {
@@ -2814,10 +3790,26 @@ class ScopeImpl implements Lite.Scope {
     return releasePromise
   }
 
+  private async releaseAfterDependents<T>(
+    atom: Lite.Atom<T>,
+    entry: AtomEntry<T>,
+    generation: AtomGeneration<T>,
+    dependents: Promise<void>[],
+  ): Promise<void> {
+    const settled = await Promise.allSettled(dependents)
+    await this.releaseEntry(atom, entry, generation)
+    for (const result of settled) {
+      if (result.status === "rejected") throw result.reason
+    }
+  }
+
   private async releaseEntry<T>(atom: Lite.Atom<T>, entry: AtomEntry<T>, generation: AtomGeneration<T>): Promise<void> {
     if (this.streamHubs?.has(atom as Lite.Atom<unknown>)) await this.releaseStreamHub(atom as Lite.Atom<unknown>)
 
     this.cancelGCTimer(entry)
+    this.cancelRefreshTimer(entry)
+    if (entry.persistScheduled) await this.flushPersistTimer(atom, entry)
+    else if (atom.persist) await this.persistWrites?.get(atom as Lite.Atom<unknown>)
 
     if (generation.pending) {
       try { await generation.pending } catch {}
@@ -2832,8 +3824,7 @@ class ScopeImpl implements Lite.Scope {
         const dep = atom.deps[key]!
         const depAtom = isControllerDep(dep) && isAtomControllerDep(dep) ? dep.atom : dep
         if (!isAtom(depAtom)) continue
-        this.cache.get(depAtom)?.dependents?.delete(atom)
-        this.maybeScheduleGCEntry(depAtom)
+        this.untrackDependent(depAtom, atom)
       }
     }
 
@@ -2856,8 +3847,11 @@ class ScopeImpl implements Lite.Scope {
     if (this.chainPromise) {
       try { await this.chainPromise } catch {}
     }
+    if (this.forks?.size) await Promise.allSettled([...this.forks].map((child) => child.dispose()))
+    this.forked?.parent.forks?.delete(this)
 
     this.disposed = true
+    this.flowCaches = undefined
     try {
       if (this.streamHubs?.size) await this.releaseStreamHubs()
       this.emitDispose()
@@ -2873,7 +3867,7 @@ class ScopeImpl implements Lite.Scope {
         await Promise.allSettled([...this.pendingContextCloses])
       }
 
-      for (const ext of this.extensions) {
+      for (const ext of this.ownExtensions) {
         if (ext.dispose) {
           await ext.dispose(this)
         }
@@ -2881,13 +3875,15 @@ class ScopeImpl implements Lite.Scope {
 
       for (const entry of this.cache.values()) {
         this.cancelGCTimer(entry)
+        this.cancelRefreshTimer(entry)
       }
 
-      const atoms = Array.from(this.cache.keys())
-      for (const atom of atoms) {
-        await this.release(atom as Lite.Atom<unknown>)
+      const releases = [...this.cache.keys()].map(atom => this.release(atom))
+      if (this.releasing) releases.push(...[...this.releasing.values()].map(({ promise }) => promise))
+      const settled = await Promise.allSettled(releases)
+      for (const result of settled) {
+        if (result.status === "rejected") throw result.reason
       }
-      if (this.releasing) await Promise.all([...this.releasing.values()].map(({ promise }) => promise))
     } finally {
       await Promise.resolve()
       while (this.pendingContextCloses?.size) {
@@ -2896,15 +3892,105 @@ class ScopeImpl implements Lite.Scope {
     }
   }
 
+  flowCache(flow: Lite.Flow<unknown, unknown, any, unknown>): Lite.FlowCacheHandle {
+    return flowCacheHandle(() => this.flowCaches, flow)
+  }
+
+  async runCachedFlow(options: ExecFlowRuntimeOptions): Promise<unknown> {
+    const ctx = this.createContext() as ExecutionContextImpl
+    try {
+      const output = await ctx.exec({ ...options, inputParsed: true, skipCache: true })
+      await ctx.close({ ok: true })
+      return output
+    } catch (error) {
+      await ctx.close({ ok: false, error })
+      throw error
+    }
+  }
+
+  shutdown(options?: Lite.ShutdownOptions): Promise<Lite.ShutdownReport> {
+    return this.shutdownPromise ??= this.drainAndDispose(options?.drainMs ?? 30_000, options?.signal)
+  }
+
+  private async drainAndDispose(drainMs: number, signal: AbortSignal | undefined): Promise<Lite.ShutdownReport> {
+    if (this.liveOpenContexts().length && !signal?.aborted) {
+      await new Promise<void>(resolve => this.startDrainTimer(drainMs, signal, resolve))
+    }
+    const forced = this.liveOpenContexts()
+    if (forced.length) {
+      const error = new ShutdownError("Scope shut down before the context closed")
+      for (const ctx of forced) ctx.abort(error)
+      await Promise.allSettled(forced.map(ctx => ctx.close({ ok: false, error })))
+    }
+    await this.dispose()
+    return { forced }
+  }
+
+  private startDrainTimer(drainMs: number, signal: AbortSignal | undefined, resolve: () => void): void {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", done)
+      this.drainWaiter = undefined
+      resolve()
+    }
+    const timer = Number.isFinite(drainMs) ? setTimeout(done, drainMs) : undefined
+    signal?.addEventListener("abort", done, { once: true })
+    this.drainWaiter = done
+  }
+
+  /**
+   * Root contexts are tracked weakly: one its caller dropped without closing has nothing left
+   * to drain, so it leaves the set when collected instead of pinning shutdown.
+   */
+  private trackOpenContext(ctx: ExecutionContextImpl): void {
+    const ref = new WeakRef(ctx)
+    ;(this.openContexts ??= new Set()).add(ref)
+    ;(this.openContextRefs ??= new WeakMap()).set(ctx, ref)
+    this.collectedContexts ??= new FinalizationRegistry((collected) => this.forgetOpenContext(collected))
+    this.collectedContexts.register(ctx, ref, ref)
+  }
+
+  private liveOpenContexts(): ExecutionContextImpl[] {
+    const live: ExecutionContextImpl[] = []
+    if (this.openContexts) for (const ref of this.openContexts) {
+      const ctx = ref.deref()
+      if (ctx) live.push(ctx)
+      else this.openContexts.delete(ref)
+    }
+    return live
+  }
+
+  private forgetOpenContext(ref: WeakRef<ExecutionContextImpl>): void {
+    if (!this.openContexts?.delete(ref)) return
+    if (this.openContexts.size === 0) this.drainWaiter?.()
+  }
+
+  contextFinalized(ctx: ExecutionContextImpl): void {
+    const ref = this.openContextRefs?.get(ctx)
+    if (!ref) return
+    this.openContextRefs!.delete(ctx)
+    this.collectedContexts!.unregister(ref)
+    this.forgetOpenContext(ref)
+  }
+
+  async settled(): Promise<void> {
+    while (this.chainPromise) await this.chainPromise
+  }
+
   async flush(): Promise<void> {
     if (this.chainPromise) {
       await this.chainPromise
     }
+    while (this.hydratedDeps?.size) await Promise.all(this.hydratedDeps)
+    while (this.persistWrites?.size) await Promise.all(this.persistWrites.values())
     if (this.chainError !== null) {
       const error = this.chainError
       this.chainError = null
       throw error
     }
+    const background = this.backgroundErrors
+    this.backgroundErrors = undefined
+    if (background) throwListenerErrors(background)
   }
 
   run<Output, Input, Yield = never>(options: Lite.ExecFlowOptions<Output, Input, Yield> & {
@@ -2921,17 +4007,19 @@ class ScopeImpl implements Lite.Scope {
     const Args extends unknown[],
     Result,
   >(options: Lite.ExecDepsOptions<D, Args, Result>): Promise<Awaited<Result>>
+  run(options: ExecFlowRuntimeOptions | ExecRuntimeOptions | ExecDepsRuntimeOptions): Promise<unknown>
   async run(options: ExecFlowRuntimeOptions | ExecRuntimeOptions | ExecDepsRuntimeOptions): Promise<unknown> {
+    assertExecBudget(options, "run()")
     const execTags = normalizeTags(options.tags)
-    const ctx = this.createContext(execTags || options.signal
-      ? { tags: execTags, signal: options.signal }
+    const ctx = this.createContext(execTags || options.signal || options.timeout !== undefined || options.deadline !== undefined
+      ? { tags: execTags, signal: options.signal, timeout: options.timeout, deadline: options.deadline }
       : undefined) as ExecutionContextImpl
     try {
       let execution: ExecFlowRuntimeOptions | ExecRuntimeOptions | ExecDepsRuntimeOptions
       if ("flow" in options && options.flow !== undefined) {
-        execution = { ...options, tags: undefined, signal: undefined, blockedTags: execTags }
+        execution = { ...options, tags: undefined, signal: undefined, timeout: undefined, deadline: undefined, blockedTags: execTags }
       } else {
-        execution = { ...options, tags: undefined, signal: undefined }
+        execution = { ...options, tags: undefined, signal: undefined, timeout: undefined, deadline: undefined }
       }
       const output = assertNoReturnedStream(await ctx.exec(execution))
       await ctx.close({ ok: true })
@@ -2942,9 +4030,22 @@ class ScopeImpl implements Lite.Scope {
     }
   }
 
+  tryRun<Output, Input, Fault = never>(
+    options: Lite.ExecFlowOptions<Output, Input> & { flow: Lite.Flow<Output, Input, Fault, any> }
+  ): Promise<Lite.ExecResult<Output, Fault>>
+  tryRun(options: ExecFlowRuntimeOptions): Promise<Lite.ExecResult<unknown, unknown>>
+  tryRun(options: ExecFlowRuntimeOptions): Promise<Lite.ExecResult<unknown, unknown>> {
+    return this.run(options).then(
+      (value) => ({ ok: true, value }),
+      (error: unknown) => toExecResult(error, options.flow, (target) =>
+        options.presets?.find((p) => p.target === target)?.value ?? this.presetsFor(target)?.get(target)),
+    )
+  }
+
   runStream<Output, Yield, Input>(options: Lite.ExecFlowOptions<Output, Input, Yield>): Lite.FlowStream<Yield, Output>
   runStream(options: ExecFlowRuntimeOptions): Lite.FlowStream<unknown, unknown>
   runStream(options: ExecFlowRuntimeOptions): Lite.FlowStream<unknown, unknown> {
+    assertExecBudget(options, "runStream()")
     let consumed = false
     let started = false
     let settleResult!: (value: unknown) => void
@@ -2970,13 +4071,15 @@ class ScopeImpl implements Lite.Scope {
           let closed = false
           try {
             const execTags = normalizeTags(options.tags)
-            ctx = owner.createContext(execTags || options.signal
-              ? { tags: execTags, signal: options.signal }
+            ctx = owner.createContext(execTags || options.signal || options.timeout !== undefined || options.deadline !== undefined
+              ? { tags: execTags, signal: options.signal, timeout: options.timeout, deadline: options.deadline }
               : undefined) as ExecutionContextImpl
             const stream = ctx.execStream({
               ...options,
               tags: undefined,
               signal: undefined,
+              timeout: undefined,
+              deadline: undefined,
               blockedTags: execTags,
             })
             for await (const value of stream) yield value
@@ -3012,6 +4115,8 @@ class ScopeImpl implements Lite.Scope {
   createContext(options?: Lite.CreateContextOptions): Lite.ExecutionContext {
     if (this.disposed) throw new Error("Scope is disposed")
     assertCreateContextOptions(options)
+    const root = !options?.parent
+    if (root && this.shutdownPromise) throw new ShutdownError("Scope is shutting down")
     if (options && "parent" in options && options.parent !== undefined) {
       assertExecutionContextImpl(options.parent)
       options.parent.assertOpen()
@@ -3045,6 +4150,7 @@ class ScopeImpl implements Lite.Scope {
       if (inheritedTags) {
         for (let i = 0; i < inheritedTags.length; i++) ctx.appendTagValue(inheritedTags[i]!)
       }
+      if (root) this.trackOpenContext(ctx)
       this.attachContextExtensions(ctx)
       return ctx
     } catch (error) {
@@ -3061,24 +4167,61 @@ function runDisposeContext(
   return ext.disposeContext!(ctx, result)
 }
 
+const createContextOptionKeys = new Set(["tags", "parent", "signal", "timeout", "deadline", "presets"])
+
 function assertCreateContextOptions(options: unknown): asserts options is Lite.CreateContextOptions | undefined {
   if (options === undefined) return
   if (options === null || typeof options !== "object" || Array.isArray(options)) {
-    throw new Error("createContext() expects { tags, parent, signal }")
+    throw new Error("createContext() expects { tags, parent, signal, timeout, deadline, presets }")
   }
 
   const record = options as Record<string, unknown>
-  const invalidKey = Object.keys(record).find((key) => key !== "tags" && key !== "parent" && key !== "signal")
+  const invalidKey = Object.keys(record).find((key) => !createContextOptionKeys.has(key))
   if (invalidKey) {
-    throw new Error(`createContext() expects { tags, parent, signal }; received "${invalidKey}"`)
+    throw new Error(`createContext() expects { tags, parent, signal, timeout, deadline, presets }; received "${invalidKey}"`)
   }
   if (record["tags"] !== undefined && !isTagged(record["tags"]) && !Array.isArray(record["tags"])) {
-    throw new Error("createContext() expects { tags, parent, signal }")
+    throw new Error("createContext() expects { tags, parent, signal, timeout, deadline, presets }")
+  }
+  assertExecBudget(record, "createContext()")
+  assertContextPresets(record["presets"], "createContext()")
+}
+
+function assertExecBudget(options: { readonly timeout?: unknown; readonly deadline?: unknown }, caller: string): void {
+  for (const key of ["timeout", "deadline"] as const) {
+    const value = options[key]
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) {
+      throw new TypeError(`${caller} expects a finite numeric ${key}`)
+    }
+  }
+  if (options.timeout !== undefined && (options.timeout as number) < 0) {
+    throw new TypeError(`${caller} expects a non-negative timeout`)
+  }
+}
+
+function assertContextPresets(presets: unknown, caller: string): void {
+  if (presets === undefined) return
+  if (!Array.isArray(presets) || !presets.every(isPreset)) {
+    throw new Error(`${caller} expects presets to be a list of preset() values`)
+  }
+  for (const p of presets) {
+    if (isAtom(p.target)) {
+      throw new Error(`${caller} cannot preset atom "${p.target.name ?? "anonymous"}"; atom presets belong on createScope()`)
+    }
   }
 }
 
+function contextPresetMap(presets: Lite.Preset<any, any, any>[] | undefined): PresetMap | undefined {
+  if (!presets?.length) return undefined
+  const map: PresetMap = new Map()
+  for (const p of presets) map.set(p.target, p.value)
+  return map
+}
+
 class ExecutionContextImpl implements Lite.ExecutionContext {
   private cleanups: CloseCleanup[] = []
+  private compensations: RegisteredCompensation[] | undefined
+  private compensationsSettled: "handed-off" | "ran" | undefined
   private resources: Map<Lite.Resource<unknown>, ResourceEntry<unknown>> | undefined
   private resourceListeners: Map<Lite.Resource<unknown>, ResourceListeners> | undefined
   private resourceControllers: Map<Lite.Resource<unknown>, ResourceControllerImpl<unknown>> | undefined
@@ -3100,7 +4243,14 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
   private _tags: ContextTagsImpl | undefined
   private readonly _execName: string | undefined
   private readonly _flowName: string | undefined
+  private readonly flow: Lite.Flow<unknown, unknown, any, unknown> | undefined
   private readonly boundary: boolean
+  readonly attempt: number | undefined
+  readonly deadline: number | undefined
+  private deadlineTimer: ReturnType<typeof setTimeout> | undefined
+  private flowCaches: FlowCacheStore | undefined
+  private batches: Map<Lite.Flow<unknown, unknown, any, unknown>, PendingBatch> | undefined
+  private readonly presets: PresetMap | undefined
   parent: Lite.ExecutionContext | undefined
 
   constructor(
@@ -3110,18 +4260,28 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
       input?: unknown
       execName?: string
       flowName?: string
+      flow?: Lite.Flow<unknown, unknown, any, unknown>
       boundary?: boolean
       signal?: AbortSignal
       detached?: boolean
+      attempt?: number
     }
   ) {
     this.parent = options?.parent
     this._input = options?.input
     this._execName = options?.execName
     this._flowName = options?.flowName
+    this.flow = options?.flow
+    this.attempt = options?.attempt
     this.boundary = options?.boundary ?? true
+    this.presets = contextPresetMap(options?.presets)
     if (this.parent) assertExecutionContextImpl(this.parent)
-    this.baselineMode = options?.detached === true || options?.signal !== undefined || (this.parent?.baselineMode ?? false)
+    const parentDeadline = this.parent?.deadline
+    const ownDeadline = options?.timeout !== undefined || options?.deadline !== undefined
+      ? earliestDeadline(options.deadline, options.timeout === undefined ? undefined : clockNow() + options.timeout)
+      : undefined
+    this.deadline = earliestDeadline(ownDeadline, parentDeadline)
+    this.baselineMode = options?.detached === true || options?.signal !== undefined || ownDeadline !== undefined || (this.parent?.baselineMode ?? false)
     if (this.baselineMode) {
       this.abortController = new AbortController()
       const signals = [this.abortController.signal]
@@ -3129,6 +4289,9 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
       if (options?.signal) signals.push(options.signal)
       this.signalOverride = signals.length === 1 ? signals[0]! : combineAbortSignals(signals)
     }
+    if (ownDeadline !== undefined && (parentDeadline === undefined || ownDeadline < parentDeadline)) {
+      this.startDeadlineTimer(ownDeadline)
+    }
     if (this.parent && options?.detached !== true) {
       this.parent.children ??= new Set()
       this.parent.children.add(this)
@@ -3146,6 +4309,29 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     return this._execName ?? this._flowName
   }
 
+  get remainingMs(): number | undefined {
+    return this.deadline === undefined ? undefined : Math.max(0, this.deadline - clockNow())
+  }
+
+  private startDeadlineTimer(deadline: number): void {
+    const expire = () => {
+      this.deadlineTimer = undefined
+      this.abort(new TimeoutError(deadline, this.name))
+    }
+    const delay = deadline - clockNow()
+    if (delay <= 0) {
+      expire()
+      return
+    }
+    this.deadlineTimer = unrefTimer(setTimeout(expire, delay))
+  }
+
+  private stopDeadlineTimer(): void {
+    if (this.deadlineTimer === undefined) return
+    clearTimeout(this.deadlineTimer)
+    this.deadlineTimer = undefined
+  }
+
   get signal(): AbortSignal {
     if (this.signalOverride) return this.signalOverride
     if (!this.abortController) {
@@ -3196,13 +4382,31 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
   }
 
   fail(fault: unknown): never {
-    throw new FlowFault(fault, this.name)
+    throw new FlowFault(fault, this.name, this.flow)
+  }
+
+  presetsFor(target: Lite.Flow<unknown, unknown, any, unknown> | Lite.Resource<unknown>): PresetMap | undefined {
+    let current: ExecutionContextImpl | undefined = this
+    while (current) {
+      if (current.presets?.has(target)) return current.presets
+      if (!current.parent) break
+      assertExecutionContextImpl(current.parent)
+      current = current.parent
+    }
+    return this.scope.presetsFor(target)
+  }
+
+  flowPreset<O, I, Y>(flow: Lite.Flow<O, I, any, Y>, local?: Lite.Preset<any, any, any>[]): Lite.PresetValue<O, I, Y> | undefined {
+    const target = flow as Lite.Flow<unknown, unknown, any, unknown>
+    const own = local?.find((p) => p.target === target)
+    if (own) return own.value as Lite.PresetValue<O, I, Y>
+    return this.presetsFor(target)?.get(target) as Lite.PresetValue<O, I, Y> | undefined
   }
 
   resourceOwner(resource?: Lite.Resource<unknown>): ExecutionContextImpl {
     if (resource?.ownership === "current") return this
     let owner: ExecutionContextImpl = this
-    while (!owner.boundary && owner.parent) {
+    while (!owner.boundary && !(resource && owner.presets?.has(resource)) && owner.parent) {
       assertExecutionContextImpl(owner.parent)
       owner = owner.parent
     }
@@ -3214,7 +4418,7 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     while (current) {
       const entry = current.resources?.get(resource as Lite.Resource<unknown>) as ResourceEntry<T> | undefined
       if (entry) return { owner: current, entry }
-      if (current.boundary) return undefined
+      if (current.boundary || current.presets?.has(resource as Lite.Resource<unknown>)) return undefined
       if (!current.parent) return undefined
       assertExecutionContextImpl(current.parent)
       current = current.parent
@@ -3330,21 +4534,31 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     const resourceCtx = {
       get input() { return owner.input },
       get name() { return owner.name },
+      get attempt() { return owner.attempt },
+      get deadline() { return owner.deadline },
+      get remainingMs() { return owner.remainingMs },
       get scope() { return owner.scope },
       get parent() { return owner.parent },
       get signal() { return owner.signal },
       get data() { return owner.data },
       get tags() { return owner.tags },
       exec: owner.exec.bind(owner) as Lite.ResourceContext["exec"],
+      tryExec: owner.tryExec.bind(owner) as Lite.ResourceContext["tryExec"],
       execStream: owner.execStream.bind(owner) as Lite.ResourceContext["execStream"],
       execDetachedStream: owner.execDetachedStream.bind(owner) as Lite.ResourceContext["execDetachedStream"],
+      all: owner.all.bind(owner) as Lite.ResourceContext["all"],
+      allSettled: owner.allSettled.bind(owner) as Lite.ResourceContext["allSettled"],
+      race: owner.race.bind(owner) as Lite.ResourceContext["race"],
+      any: owner.any.bind(owner) as Lite.ResourceContext["any"],
       resolve: owner.resolve.bind(owner) as Lite.ResourceContext["resolve"],
       release: owner.release.bind(owner) as Lite.ResourceContext["release"],
       controller: owner.controller.bind(owner),
       changes: owner.changes.bind(owner) as Lite.ResourceContext["changes"],
       resolveStream: owner.resolveStream.bind(owner),
       onClose: owner.onClose.bind(owner) as Lite.ResourceContext["onClose"],
+      compensate: owner.compensate.bind(owner) as Lite.ResourceContext["compensate"],
       close: owner.close.bind(owner),
+      flowCache: owner.flowCache.bind(owner),
       fail: owner.fail.bind(owner),
       cleanup<Args extends unknown[]>(
         fn: (...args: Args) => MaybePromise<void>,
@@ -3387,40 +4601,61 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
   exec(options: ExecFlowRuntimeOptions | ExecRuntimeOptions | ExecDepsRuntimeOptions): Promise<unknown> {
     try {
       this.assertOpen()
+      assertExecBudget(options, "exec()")
       return this.runExec({ ...options, tags: normalizeTags(options.tags) })
     } catch (error) {
       return Promise.reject(error)
     }
   }
 
+  tryExec<Output, Input, Fault = never>(
+    options: Lite.ExecFlowOptions<Output, Input> & { flow: Lite.Flow<Output, Input, Fault, any> }
+  ): Promise<Lite.ExecResult<Output, Fault>>
+  tryExec(options: ExecFlowRuntimeOptions): Promise<Lite.ExecResult<unknown, unknown>>
+  tryExec(options: ExecFlowRuntimeOptions): Promise<Lite.ExecResult<unknown, unknown>> {
+    return this.exec(options).then(
+      (value) => ({ ok: true, value }),
+      (error: unknown) => toExecResult(error, options.flow, (target) => this.flowPreset(target, options.presets)),
+    )
+  }
+
   private async runExec(options: ExecFlowRuntimeOptions | ExecRuntimeOptions | ExecDepsRuntimeOptions): Promise<unknown> {
     this.activeExecs++
     try {
       if ("flow" in options) {
-        const invocation = this.createChildInvocation(options)
-        const { flow, presetValue, childCtx, streaming } = isPromiseLike(invocation)
-          ? await invocation
-          : invocation
-        const unregisterStreaming = streaming ? registerStreamingExec(flow, childCtx) : undefined
-        try {
-          const result = this.scope.execExts.length === 0
-            ? await (typeof presetValue === "function"
-                ? childCtx.execPresetFn(presetValue as (ctx: Lite.ExecutionContext) => unknown, flow)
-                : childCtx.execFlowInternal(flow))
-            : await childCtx.applyExecPipeline(
-                flow,
-                async () => typeof presetValue === "function"
-                  ? await childCtx.execPresetFn(presetValue as (ctx: Lite.ExecutionContext) => unknown, flow)
-                  : await childCtx.execFlowInternal(flow),
-              )
-          const closing = childCtx.closeSuccessfulExec()
-          if (closing) await closing
-          return result
-        } catch (error) {
-          await childCtx.close({ ok: false, error })
-          throw error
-        } finally {
-          unregisterStreaming?.()
+        if (options.flow.cache && !options.skipCache) return await this.execCached(options, options.flow.cache)
+        let attemptOptions = options
+        for (;;) {
+          const invocation = this.createChildInvocation(attemptOptions)
+          const { flow, presetValue, childCtx, streaming, retry } = isPromiseLike(invocation)
+            ? await invocation
+            : invocation
+          const unregisterStreaming = streaming ? registerStreamingExec(flow, childCtx) : undefined
+          let failure: unknown
+          try {
+            const result = this.scope.execExts.length === 0
+              ? await (typeof presetValue === "function"
+                  ? childCtx.execPresetFn(presetValue as (ctx: Lite.ExecutionContext) => unknown, flow)
+                  : childCtx.execFlowInternal(flow))
+              : await childCtx.applyExecPipeline(
+                  flow,
+                  async () => typeof presetValue === "function"
+                    ? await childCtx.execPresetFn(presetValue as (ctx: Lite.ExecutionContext) => unknown, flow)
+                    : await childCtx.execFlowInternal(flow),
+                )
+            const closing = childCtx.closeSuccessfulExec()
+            if (closing) await closing
+            return result
+          } catch (error) {
+            await childCtx.close({ ok: false, error })
+            if (!retry) throw error
+            failure = error
+          } finally {
+            unregisterStreaming?.()
+          }
+          const attempt = childCtx.attempt!
+          await retryTimer(retry, failure, attempt, [this.signal, options.signal])
+          attemptOptions = { ...options, input: childCtx.input, rawInput: undefined, inputParsed: true, attempt: attempt + 1 }
         }
       } else {
         const childCtx = new ExecutionContextImpl(this.scope, {
@@ -3429,7 +4664,9 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
           flowName: options.fn.name || undefined,
           input: options.params,
           boundary: false,
-          signal: options.signal
+          signal: options.signal,
+          timeout: options.timeout,
+          deadline: options.deadline,
         })
 
         try {
@@ -3464,10 +4701,162 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     }
   }
 
+  private async execCached(options: ExecFlowRuntimeOptions, policy: Lite.FlowCachePolicy<unknown>): Promise<unknown> {
+    const shared = policy.owner === "scope"
+    const presets = shared ? undefined : options.presets
+    let target = options.flow
+    for (let preset = this.flowPreset(target, presets); preset !== undefined && isFlow(preset); preset = this.flowPreset(target, presets)) {
+      target = preset
+    }
+    const raw = options.rawInput !== undefined ? options.rawInput : options.input
+    const input = target.parse ? await parseFlowInput(target, raw, options.name) : raw
+    const key = policy.key(input)
+    const store = this.flowCacheStore(policy)
+    let entries = store.get(options.flow)
+    if (!entries) store.set(options.flow, entries = new Map())
+    const hit = entries.get(key)
+    if (isFresh(hit)) return shared ? this.awaitSharedRun(hit.promise, options, target) : hit.promise
+    if (hit) entries.delete(key)
+
+    const entry: FlowCacheEntry = {
+      promise: shared
+        ? this.scope.runCachedFlow({ flow: options.flow, input, name: options.name, retry: options.retry })
+        : this.runExec({ ...options, input, rawInput: undefined, inputParsed: true, skipCache: true }),
+      expiresAt: Infinity,
+    }
+    entries.set(key, entry)
+    entry.promise.then(
+      () => { if (policy.ttlMs !== undefined) scheduleCacheExpiryTimer(entries, key, entry, policy.ttlMs) },
+      () => { if (entries.get(key) === entry) entries.delete(key) },
+    )
+    return shared ? this.awaitSharedRun(entry.promise, options, target) : entry.promise
+  }
+
+  private awaitSharedRun(
+    promise: Promise<unknown>,
+    options: ExecFlowRuntimeOptions,
+    target: Lite.Flow<unknown, unknown, any, unknown>,
+  ): Promise<unknown> {
+    const ownDeadline = options.timeout !== undefined || options.deadline !== undefined
+      ? earliestDeadline(options.deadline, options.timeout === undefined ? undefined : clockNow() + options.timeout)
+      : undefined
+    return sharedWaitTimer(promise, [this.signal, options.signal], ownDeadline, options.name ?? target.name)
+  }
+
+  private flowCacheStore(policy: Lite.FlowCachePolicy<unknown> | undefined): FlowCacheStore {
+    if (policy?.owner === "scope") return this.scope.flowCaches ??= new Map()
+    const owner = this.resourceOwner()
+    return owner.flowCaches ??= new Map()
+  }
+
+  private async joinBatch(flow: Lite.Flow<unknown, unknown, any, unknown>, policy: Lite.FlowBatchPolicy<unknown>): Promise<unknown> {
+    const key = (policy.key ?? String)(this.input)
+    const signal = this.signal
+    if (signal.aborted) throw signal.reason
+    const owner = this.resourceOwner()
+    const batches = owner.batches ??= new Map()
+    let batch = batches.get(flow)
+    if (!batch) {
+      const pending: PendingBatch = { entries: new Map(), timer: undefined }
+      batches.set(flow, batch = pending)
+      owner.scheduleBatchTimer(flow, pending, policy)
+    }
+    const settled = new Promise<Lite.ExecResult<unknown, unknown>>((resolve, reject) => {
+      const abort = () => {
+        owner.leaveBatch(flow, batch, key, waiter)
+        reject(signal.reason)
+      }
+      const waiter = (result: Lite.ExecResult<unknown, unknown>) => {
+        signal.removeEventListener("abort", abort)
+        resolve(result)
+      }
+      signal.addEventListener("abort", abort, { once: true })
+      const entry = batch.entries.get(key)
+      if (entry) entry.waiters.push(waiter)
+      else batch.entries.set(key, { input: this.input, waiters: [waiter] })
+    })
+    if (policy.maxBatchSize !== undefined && batch.entries.size >= policy.maxBatchSize) {
+      owner.dispatchBatch(flow, batch, policy)
+    }
+    const result = await settled
+    if (result.ok) return result.value
+    if ("fault" in result) return this.fail(result.fault)
+    throw result.error
+  }
+
+  /** Drops a caller that gave up before dispatch; a batch left empty is cancelled. */
+  private leaveBatch(
+    flow: Lite.Flow<unknown, unknown, any, unknown>,
+    batch: PendingBatch,
+    key: string,
+    waiter: (result: Lite.ExecResult<unknown, unknown>) => void,
+  ): void {
+    const entry = batch.entries.get(key)
+    if (!entry) return
+    const index = entry.waiters.indexOf(waiter)
+    if (index >= 0) entry.waiters.splice(index, 1)
+    if (entry.waiters.length > 0) return
+    batch.entries.delete(key)
+    if (batch.entries.size > 0 || this.batches?.get(flow) !== batch) return
+    this.batches.delete(flow)
+    this.cancelBatchTimer(batch)
+  }
+
+  private scheduleBatchTimer(flow: Lite.Flow<unknown, unknown, any, unknown>, batch: PendingBatch, policy: Lite.FlowBatchPolicy<unknown>): void {
+    batch.timer = unrefTimer(setTimeout(() => {
+      batch.timer = undefined
+      this.dispatchBatch(flow, batch, policy)
+    }, policy.windowMs ?? 0))
+  }
+
+  private cancelBatchTimers(): void {
+    if (!this.batches) return
+    for (const batch of this.batches.values()) this.cancelBatchTimer(batch)
+    this.batches = undefined
+  }
+
+  private cancelBatchTimer(batch: PendingBatch): void {
+    if (batch.timer === undefined) return
+    clearTimeout(batch.timer)
+    batch.timer = undefined
+  }
+
+  private dispatchBatch(flow: Lite.Flow<unknown, unknown, any, unknown>, batch: PendingBatch, policy: Lite.FlowBatchPolicy<unknown>): void {
+    if (this.batches?.get(flow) !== batch) return
+    this.batches.delete(flow)
+    this.cancelBatchTimer(batch)
+    const entries = [...batch.entries.values()]
+    const settleAll = (result: (index: number) => Lite.ExecResult<unknown, unknown>) => {
+      for (let i = 0; i < entries.length; i++) {
+        for (const waiter of entries[i]!.waiters) waiter(result(i))
+      }
+    }
+    this.exec({ flow: policy.loader, input: entries.map((entry) => entry.input) }).then(
+      (results) => {
+        if (!Array.isArray(results) || results.length !== entries.length) {
+          const error = new Error(
+            `batchedFlow "${flow.name ?? "anonymous"}" load returned ${Array.isArray(results) ? results.length : "no"} results for ${entries.length} inputs`,
+          )
+          settleAll(() => ({ ok: false, error }))
+          return
+        }
+        settleAll((index) => results[index] as Lite.ExecResult<unknown, unknown>)
+      },
+      (error: unknown) => settleAll(() => ({ ok: false, error })),
+    )
+  }
+
+  flowCache(flow: Lite.Flow<unknown, unknown, any, unknown>): Lite.FlowCacheHandle {
+    if (flow.cache?.owner === "scope") return this.scope.flowCache(flow)
+    const owner = this.resourceOwner()
+    return flowCacheHandle(() => owner.flowCaches, flow)
+  }
+
   execStream<Output, Yield, Input>(options: Lite.ExecFlowOptions<Output, Input, Yield>): Lite.FlowStream<Yield, Output>
   execStream(options: ExecFlowRuntimeOptions): Lite.FlowStream<unknown, unknown>
   execStream(options: ExecFlowRuntimeOptions): Lite.FlowStream<unknown, unknown> {
     this.assertOpen()
+    assertExecBudget(options, "execStream()")
 
     let consumed = false
     let started = false
@@ -3606,6 +4995,87 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     } as Lite.FlowStream<unknown, unknown>
   }
 
+  all<const T extends readonly Lite.ExecEntry[]>(entries: Lite.ExecEntries<T>, options?: Lite.ParallelOptions): Promise<Lite.ExecOutputs<T>>
+  all(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown>
+  all(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown> {
+    return this.execGroup("all", entries, options)
+  }
+
+  allSettled<const T extends readonly Lite.ExecEntry[]>(entries: Lite.ExecEntries<T>, options?: Lite.ParallelOptions): Promise<Lite.ExecSettledResults<T>>
+  allSettled(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown>
+  allSettled(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown> {
+    return this.execGroup("allSettled", entries, options)
+  }
+
+  race<const T extends readonly Lite.ExecEntry[]>(entries: Lite.ExecEntries<T>, options?: Lite.ParallelOptions): Promise<Lite.ExecOutputs<T>[number]>
+  race(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown>
+  race(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown> {
+    return this.execGroup("race", entries, options)
+  }
+
+  any<const T extends readonly Lite.ExecEntry[]>(entries: Lite.ExecEntries<T>, options?: Lite.ParallelOptions): Promise<Lite.ExecOutputs<T>[number]>
+  any(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown>
+  any(entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown> {
+    return this.execGroup("any", entries, options)
+  }
+
+  private execGroup(mode: ExecGroupMode, entries: readonly ExecFlowRuntimeOptions[], options?: Lite.ParallelOptions): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.assertOpen()
+      if (mode === "race" && entries.length === 0) throw new Error("race() expects at least one execution")
+      const limit = Math.max(1, options?.concurrency ?? Infinity)
+      const results: Lite.ExecSettledResult<unknown, unknown>[] = new Array(entries.length)
+      const controllers: AbortController[] = []
+      let outcome: { ok: true; value: unknown } | { ok: false; error: unknown } | undefined
+      let started = 0
+      let running = 0
+
+      const decide = (decided: NonNullable<typeof outcome>) => {
+        if (outcome) return
+        outcome = decided
+        const reason = new DOMException(`${mode}() settled before this execution finished`, "AbortError")
+        for (let i = 0; i < controllers.length; i++) controllers[i]!.abort(reason)
+      }
+      const finish = () => {
+        if (running > 0 || (!outcome && started < entries.length)) return
+        if (!outcome) {
+          outcome = mode === "all"
+            ? { ok: true, value: results.map((result) => (result as { value: unknown }).value) }
+            : mode === "allSettled"
+              ? { ok: true, value: results }
+              : { ok: false, error: new AggregateError(results.map((result) => (result as { reason: unknown }).reason), "All executions failed") }
+        }
+        if (outcome.ok) resolve(outcome.value)
+        else reject(outcome.error)
+      }
+      const pump = () => {
+        while (!outcome && running < limit && started < entries.length) {
+          const index = started++
+          const entry = entries[index]!
+          const controller = new AbortController()
+          controllers.push(controller)
+          running++
+          this.exec({ ...entry, signal: entry.signal ? combineAbortSignals([entry.signal, controller.signal]) : controller.signal }).then(
+            (value) => {
+              results[index] = { status: "fulfilled", value }
+              if (mode === "race" || mode === "any") decide({ ok: true, value })
+            },
+            (reason: unknown) => {
+              results[index] = { status: "rejected", reason, fault: isFault(entry.flow, reason) ? reason.fault : undefined }
+              if (mode === "all" || mode === "race") decide({ ok: false, error: reason })
+            },
+          ).finally(() => {
+            running--
+            pump()
+            finish()
+          })
+        }
+      }
+      pump()
+      finish()
+    })
+  }
+
   private seedTags(
     childCtx: ExecutionContextImpl,
     inputTags?: Lite.TagInput,
@@ -3644,10 +5114,12 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     presetValue: unknown
     childCtx: ExecutionContextImpl
     streaming: boolean
+    retry: Lite.RetryPolicy | undefined
   }> {
     this.assertOpen()
     const { flow, input, rawInput, name: execName, tags: execTags, blockedTags } = options
-    const presetValue = this.scope.getFlowPreset(flow)
+    assertContextPresets(options.presets, "exec()")
+    const presetValue = this.flowPreset(flow, options.presets)
     if (presetValue !== undefined && isFlow(presetValue)) {
       return this.createChildInvocation({ ...options, flow: presetValue }, detached, abandonment)
     }
@@ -3667,14 +5139,23 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
         if (!blocked.has(flow.tags[i]!.key)) pendingFlowTags.push(flow.tags[i]!)
       }
       const seededFlowTags = pendingFlowTags.length > 0 ? normalizeTags(pendingFlowTags) : undefined
+      const streaming = typeof presetValue === "function"
+        ? isAsyncGeneratorFunction(presetValue)
+        : isAsyncGeneratorFunction(flow.factory)
+      const retry = detached || streaming || options.retry === false ? undefined : options.retry ?? flow.retry
       const childCtx = new ExecutionContextImpl(this.scope, {
         parent: this,
         input: parsedInput,
         execName,
         flowName: flow.name,
+        flow,
         boundary: false,
         signal: options.signal,
+        timeout: options.timeout,
+        deadline: options.deadline,
         detached,
+        attempt: retry ? options.attempt ?? 1 : undefined,
+        presets: options.presets,
       })
 
       try {
@@ -3688,34 +5169,16 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
         flow,
         presetValue,
         childCtx,
-        streaming: typeof presetValue === "function"
-          ? isAsyncGeneratorFunction(presetValue)
-          : isAsyncGeneratorFunction(flow.factory),
+        streaming,
+        retry,
       }
     }
 
     const rawValue = rawInput !== undefined ? rawInput : input
-    if (!flow.parse) return finish(rawValue)
-
-    const label = execName ?? flow.name ?? "anonymous"
-    const wrap = (err: unknown) => new ParseError(
-      `Failed to parse flow input "${label}"`,
-      "flow-input",
-      label,
-      err
-    )
-    let parsed: unknown
-    try {
-      parsed = flow.parse(rawValue)
-    } catch (err) {
-      throw wrap(err)
-    }
-    if (isPromiseLike(parsed)) {
-      return Promise.resolve(parsed).then(finish, (err) => {
-        throw wrap(err)
-      })
-    }
-    return finish(parsed)
+    if (!flow.parse || options.inputParsed) return finish(rawValue)
+
+    const parsed = parseFlowInput(flow, rawValue, execName)
+    return isPromiseLike(parsed) ? Promise.resolve(parsed).then(finish) : finish(parsed)
   }
 
   private async *iterateExecStream(
@@ -3851,6 +5314,7 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     flow: Lite.Flow<unknown, unknown, any, unknown>,
     consume: (value: MaybePromise<unknown> | AsyncGenerator<unknown, unknown, unknown>) => MaybePromise<T>
   ): MaybePromise<T> {
+    if (flow.batch) return consume(this.joinBatch(flow, flow.batch))
     const depsResult = this.scope.resolveDepsOptimistic(flow.deps, this, undefined)
     const factory = flow.factory as unknown as (
       ctx: Lite.ExecutionContext,
@@ -3926,21 +5390,36 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     }
   }
 
+  compensate<Args extends unknown[]>(
+    fn: (...args: Args) => MaybePromise<void>,
+    ...params: Args
+  ): () => void {
+    if (this.closed) throw new Error("Cannot compensate on a closed execution context")
+    const compensation: RegisteredCompensation = { ctx: this, fn, params, seq: this.scope.nextCompensationSeq() }
+    ;(this.compensations ??= []).push(compensation)
+    return () => { compensation.cancelled = true }
+  }
+
   close(result: Lite.CloseResult = { ok: true }): Promise<void> {
     if (this.closePromise) return this.closePromise
     if (this.closed) return Promise.resolve()
 
     this.closed = true
+    this.stopDeadlineTimer()
+    this.cancelBatchTimers()
     const closeResult = this.classifyCloseResult(result)
+    if (closeResult.ok) this.handOffCompensations()
     this.abort(this.scope.executionContextCloseReason())
     if (
-      !this.activeIterators?.size
+      !this.compensations?.length
+      && !this.activeIterators?.size
       && !this.descendants?.size
       && this.activeExecs === 0
       && !this.children?.size
       && this.cleanups.length === 0
       && !this.resources?.size
     ) {
+      if (!closeResult.ok) this.compensationsSettled = "ran"
       if (this.parent) {
         assertExecutionContextImpl(this.parent)
         this.parent.children?.delete(this)
@@ -3987,6 +5466,7 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     ) {
       return this.close({ ok: true })
     }
+    if (!this.handOffCompensations()) return this.close({ ok: true })
     this.closed = true
     this.abort(this.scope.executionContextCloseReason())
     if (this.parent) {
@@ -3996,7 +5476,58 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     this.finalizeStore()
   }
 
+  /**
+   * Hands compensations to the nearest ancestor still collecting them, skipping ancestors that
+   * already handed theirs on. Returns false when an ancestor already ran its own, leaving these
+   * for this context to run.
+   */
+  private handOffCompensations(): boolean {
+    let owner = this.parent
+    while (owner) {
+      assertExecutionContextImpl(owner)
+      if (!owner.compensationsSettled) break
+      if (owner.compensationsSettled === "ran" && this.compensations?.length) return false
+      owner = owner.parent
+    }
+    if (this.compensations?.length && owner) {
+      assertExecutionContextImpl(owner)
+      owner.compensations = [...owner.compensations ?? [], ...this.compensations]
+    }
+    this.compensations = undefined
+    this.compensationsSettled = "handed-off"
+    return true
+  }
+
+  private async runCompensations(): Promise<Lite.CompensationFailure[]> {
+    const compensations = this.compensations?.sort((a, b) => b.seq - a.seq) ?? []
+    this.compensations = undefined
+    this.compensationsSettled = "ran"
+    const failures: Lite.CompensationFailure[] = []
+    for (const compensation of compensations) {
+      if (compensation.cancelled) continue
+      const run = () => this.runCompensation(compensation)
+      try {
+        await run()
+      } catch (error) {
+        failures.push({ compensation, error, retry: run })
+      }
+    }
+    return failures
+  }
+
+  private runCompensation(compensation: Lite.Compensation): Promise<void> {
+    let next = async () => { await compensation.fn(...compensation.params) }
+    for (let i = this.scope.compensateExts.length - 1; i >= 0; i--) {
+      const ext = this.scope.compensateExts[i]!
+      const currentNext = next
+      next = () => ext.wrapCompensate!(currentNext, compensation, this)
+    }
+    return next()
+  }
+
   private finalizeStore(): void {
+    if (!this.parent) this.scope.contextFinalized(this)
+    this.flowCaches = undefined
     this.storeFinalized = true
     this._store?.finalize()
   }
@@ -4066,8 +5597,17 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
     await this.runCloseCleanups(result)
   }
 
-  private async runCloseCleanups(result: Lite.CloseResult): Promise<void> {
+  private async runCloseCleanups(closeResult: Lite.CloseResult): Promise<void> {
+    let result: Lite.CloseResult = closeResult
     const failures: unknown[] = []
+    if (!closeResult.ok || this.compensations?.length) {
+      const compensationFailures = await this.runCompensations()
+      if (compensationFailures.length && !closeResult.ok) {
+        result = { ...closeResult, compensationFailures }
+      } else {
+        failures.push(...compensationFailures.map((failure) => failure.error))
+      }
+    }
     for (let i = this.cleanups.length - 1; i >= 0; i--) {
       try {
         const cleanup = this.cleanups[i]
@@ -4099,6 +5639,33 @@ class ExecutionContextImpl implements Lite.ExecutionContext {
   }
 }
 
+/**
+ * Creates a derived handle that records every `Controller.get()` read made by `fn`,
+ * subscribes to exactly those atoms, and recomputes lazily when any of them changes.
+ * Dependencies are re-collected on each evaluation, so conditional reads are tracked.
+ * Changes arriving in one invalidation chain (e.g. a diamond) produce a single recompute,
+ * and listeners are notified only when the result differs according to `eq`.
+ *
+ * @param fn - Synchronous derivation reading resolved controllers
+ * @param options - Optional `eq` comparator (default: `Object.is`)
+ * @returns A handle sharing one cached result across all readers and subscribers
+ *
+ * @example
+ * ```typescript
+ * import { atom, computed, createScope } from "@pumped-fn/lite"
+ *
+ * const scope = createScope()
+ * const price = await scope.controller(atom({ factory: () => 10 }), { resolve: true })
+ * const quantity = await scope.controller(atom({ factory: () => 2 }), { resolve: true })
+ *
+ * const total = computed(() => price.get() * quantity.get())
+ * total.subscribe(() => console.log(total.get()))
+ * ```
+ */
+export function computed<T>(fn: () => T, options?: Lite.SelectOptions<T>): Lite.SelectHandle<T> {
+  return new ComputedHandleImpl(fn, options?.eq ?? Object.is)
+}
+
 /**
  * Registers or restores controller-read observers used by integrations that
  * need to track `controller.get()` access.
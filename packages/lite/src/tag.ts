@@ -1,10 +1,15 @@
-import { normalizeAttributes } from "./attribute"
+import { isAttributed, normalizeAttributes } from "./attribute"
 import { tagSymbol, taggedSymbol, tagExecutorSymbol, ParseError, type Lite } from "./types"
+import { isStandardSchema, parseIssues, schemaParser } from "./schema"
 
 interface TagBaseOptions<T> {
   label: string
   attributes?: Lite.AttributeInput
-  parse?: (raw: unknown) => T
+  /**
+   * Validates each value when the tagged value is created, which is synchronous. A Standard Schema
+   * that returns a Promise fails with a `ParseError` caused by a `TypeError`; flow `parse` accepts async schemas.
+   */
+  parse?: ((raw: unknown) => T) | Lite.StandardSchemaV1<unknown, T>
   eq?: (a: T, b: T) => boolean
 }
 
@@ -178,6 +183,7 @@ function getAtomsForTag(tag: Lite.Tag<unknown, boolean>): Lite.Atom<unknown>[] {
  *
  * @param options - Configuration object with label and optional default value
  * @returns A Tag instance that can create tagged values and query them from sources
+ * @throws {ParseError} When `parse` rejects a value, or a Standard Schema validates asynchronously
  *
  * @example
  * ```typescript
@@ -208,7 +214,7 @@ export function tag<T>(options: TagOptions<T, boolean, boolean>): Lite.Tag<T, bo
   const key = Symbol(`@pumped-fn/lite/tag/${options.label}`)
   const hasDefault = "default" in options
   const defaultValue = hasDefault ? options.default : undefined
-  const parse = options.parse
+  const parse = isStandardSchema(options.parse) ? syncSchemaParser(options.parse, options.label) : options.parse
   const eq = options.eq ?? Object.is
   const serializable = options.serializable === true
   const declared = normalizeAttributes(options.attributes)
@@ -233,7 +239,8 @@ export function tag<T>(options: TagOptions<T, boolean, boolean>): Lite.Tag<T, bo
           `Failed to parse tag "${options.label}"`,
           "tag",
           options.label,
-          err
+          err,
+          parseIssues(err)
         )
       }
     }
@@ -327,6 +334,16 @@ export function tag<T>(options: TagOptions<T, boolean, boolean>): Lite.Tag<T, bo
   return tagInstance
 }
 
+function syncSchemaParser<T>(schema: Lite.StandardSchemaV1<unknown, T>, label: string): (raw: unknown) => T {
+  const parse = schemaParser(schema)
+  return (raw) => {
+    const parsed = parse(raw)
+    if (!(parsed instanceof Promise)) return parsed
+    parsed.catch(() => {})
+    throw new TypeError(`Tag "${label}" schema must validate synchronously`)
+  }
+}
+
 /** Asserts that a value contains only strict JSON data. */
 export function assertSerializable(value: unknown): asserts value is Lite.JsonValue {
   assertSerializableValue(value, "$", new WeakSet<object>())
@@ -514,9 +531,11 @@ export const tags = {
   },
 
   /**
-   * Creates a tag executor that collects all values for the given tag.
+   * Creates a tag executor that collects all values for the given tag, optionally only those
+   * whose carrier holds every given attribute.
    *
    * @param tag - The tag to execute
+   * @param attributes - Optional attribute bindings each collected value must carry
    * @returns A tag executor that returns an array of all matching tag values
    *
    * @example
@@ -527,9 +546,87 @@ export const tags = {
    * })
    * ```
    */
-  all<T>(tag: Lite.Tag<T, boolean>): Lite.TagExecutor<T[], T> {
-    return { [tagExecutorSymbol]: true, tag, mode: "all" }
+  all<T>(tag: Lite.Tag<T, boolean>, ...attributes: Lite.Attributed<any>[]): Lite.TagExecutor<T[], T> {
+    if (attributes.length === 0) return { [tagExecutorSymbol]: true, tag, mode: "all" }
+    return { [tagExecutorSymbol]: true, tag, mode: "all", attributes: selectable(attributes) }
   },
+
+  /**
+   * Creates a tag executor that resolves the single value whose carrier holds every given attribute.
+   * Falls back to the tag's default when nothing matches; fails when several values match.
+   *
+   * @param tag - The tag to execute
+   * @param attributes - Attribute bindings the picked value must carry
+   * @returns A tag executor that returns the one matching tag value
+   *
+   * @example
+   * ```typescript
+   * import { atom, attribute, tag, tags } from "@pumped-fn/lite"
+   *
+   * const server = attribute<string>({ label: "server" })
+   * const route = tag<string>({ label: "route" })
+   * const adminHome = atom({
+   *   deps: { home: tags.pick(route, server("admin")) },
+   *   factory: (ctx, { home }) => home
+   * })
+   * ```
+   */
+  pick<T>(tag: Lite.Tag<T, boolean>, ...attributes: Lite.Attributed<any>[]): Lite.TagExecutor<T, T> {
+    return { [tagExecutorSymbol]: true, tag, mode: "pick", attributes: selectable(attributes) }
+  },
+}
+
+function selectable(attributes: Lite.Attributed<any>[]): Lite.Attributed<any>[] {
+  for (const attributed of attributes) {
+    if (!isAttributed(attributed)) throw new TypeError("tags.pick() and tags.all() filters must be attributed values")
+    if (!attributed.attribute.select) {
+      throw new TypeError(`Attribute "${attributed.attribute.label}" is declared with select: false and cannot be picked`)
+    }
+  }
+  return attributes
+}
+
+/** A tag value with the attribute membership of the carrier it arrived on. */
+export interface TagCarrier {
+  readonly value: unknown
+  readonly attributes?: readonly Lite.Attributed<any>[] | undefined
+}
+
+function carries(carrier: TagCarrier, wanted: readonly Lite.Attributed<any>[]): boolean {
+  return wanted.every((binding) => carrier.attributes?.some((attributed) =>
+    attributed.key === binding.key && binding.attribute.eq(attributed.value, binding.value),
+  ) ?? false)
+}
+
+function describeAttributes(attributes: readonly Lite.Attributed<any>[]): string {
+  return attributes.map((attributed) => `${attributed.attribute.label}(${String(attributed.value)})`).join(", ")
+}
+
+/** Values of `carriers` that hold every attribute the executor filters on. */
+export function matchTagged<T>(executor: Lite.TagExecutor<unknown, T>, carriers: readonly TagCarrier[]): T[] {
+  const wanted = executor.attributes ?? []
+  const values: T[] = []
+  for (const carrier of carriers) {
+    if (carries(carrier, wanted)) values.push(carrier.value as T)
+  }
+  return values
+}
+
+/**
+ * The single value a `tags.pick()` executor selects from the nearest level with a match,
+ * its tag default, or an error naming the filter.
+ */
+export function pickTagged<T>(executor: Lite.TagExecutor<unknown, T>, levels: readonly (readonly TagCarrier[])[]): T {
+  const filter = describeAttributes(executor.attributes ?? [])
+  for (const level of levels) {
+    const matches = matchTagged(executor, level)
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous pick for tag "${executor.tag.label}": ${matches.length} values match ${filter}`)
+    }
+    if (matches.length === 1) return matches[0]!
+  }
+  if (executor.tag.hasDefault) return executor.tag.defaultValue as T
+  throw new Error(`Tag "${executor.tag.label}" has no value matching ${filter} and has no default`)
 }
 
 /**
@@ -10,29 +10,65 @@ export const typedSymbol: unique symbol = Symbol.for("@pumped-fn/lite/typed")
 export const resourceSymbol: unique symbol = Symbol.for("@pumped-fn/lite/resource")
 export const attributeSymbol: unique symbol = Symbol.for("@pumped-fn/lite/attribute")
 export const attributedSymbol: unique symbol = Symbol.for("@pumped-fn/lite/attributed")
+export const atomFamilySymbol: unique symbol = Symbol.for("@pumped-fn/lite/atom-family")
 
 export class ParseError extends Error {
   override readonly name = "ParseError"
 
   constructor(
     message: string,
-    readonly phase: "tag" | "flow-input",
+    readonly phase: "tag" | "flow-input" | "persist",
     readonly label: string,
-    override readonly cause: unknown
+    override readonly cause: unknown,
+    /** Field-level failures reported by a Standard Schema; empty for plain parse functions. */
+    readonly issues: readonly Lite.ParseIssue[] = []
   ) {
     super(message)
   }
 }
 
+export class TimeoutError extends Error {
+  override readonly name = "TimeoutError"
+  readonly deadline: number
+
+  constructor(deadline: number, label: string | undefined) {
+    super(`execution "${label ?? "anonymous"}" exceeded its deadline`)
+    this.deadline = deadline
+  }
+}
+
+export class ShutdownError extends Error {
+  override readonly name = "ShutdownError"
+}
+
+export class WarmupError extends AggregateError {
+  override readonly name = "WarmupError"
+  readonly failures: readonly Lite.WarmupFailure[]
+
+  constructor(failures: readonly Lite.WarmupFailure[]) {
+    const names = failures.map((failure) => failure.atom.name ?? "anonymous")
+    super(failures.map((failure) => failure.error), `warmup failed for ${names.join(", ")}`)
+    this.failures = failures
+  }
+}
+
 export class FlowFault extends Error {
   override readonly name = "FlowFault"
   readonly fault: unknown
   readonly flow: string
-
-  constructor(fault: unknown, flow: string | undefined) {
-    super(`flow "${flow ?? "anonymous"}" failed: ${safeStringify(fault)}`)
+  /** The flow instance whose execution raised the fault, when known. */
+  readonly origin: Lite.Flow<unknown, unknown, any, unknown> | undefined
+  /** The child flow whose fault `mapFaults` left unmapped, when this fault escaped a translation. */
+  readonly from: string | undefined
+
+  constructor(fault: unknown, flow: string | undefined, origin?: Lite.Flow<unknown, unknown, any, unknown>, from?: string) {
+    super(from === undefined
+      ? `flow "${flow ?? "anonymous"}" failed: ${safeStringify(fault)}`
+      : `flow "${flow ?? "anonymous"}" has no mapping for a fault of flow "${from}": ${safeStringify(fault)}`)
     this.fault = fault
     this.flow = flow ?? "anonymous"
+    this.origin = origin
+    this.from = from
   }
 }
 
@@ -59,6 +95,27 @@ export namespace Lite {
     release<T>(atom: Atom<T>): Promise<void>
     dispose(): Promise<void>
     flush(): Promise<void>
+    /**
+     * Runs `fn` with atom writes batched. `set`/`update` apply immediately, but `'resolved'`
+     * listeners, select handles, and invalidations run in one pass after the outermost batch
+     * settles. If `fn` throws or rejects, writes and invalidations made since it started are undone.
+     * While an async `fn` is pending, writes made elsewhere on the scope are held with it.
+     */
+    batch<T>(fn: () => MaybePromise<T>): Promise<T>
+    snapshot(): Snapshot
+    warm(targets: readonly Atom<unknown>[], options?: WarmOptions): Promise<void>
+    /**
+     * Rejects new root contexts and runs with a `ShutdownError`, waits up to `drainMs` for open
+     * contexts to close, aborts and closes the rest, then disposes the scope.
+     */
+    shutdown(options?: ShutdownOptions): Promise<ShutdownReport>
+    /**
+     * Child scope that reads through to this scope's atoms. Atoms preset by the fork, or depending on a
+     * tag the fork sets, resolve in the fork's own cache; disposing the fork releases only those.
+     */
+    fork(options?: ForkOptions): Scope
+    /** Handle over the scope-owned cache entries of a flow declared with `cache: { owner: "scope" }`. */
+    flowCache(flow: Flow<any, any, any, any>): FlowCacheHandle
     run<Output, Input, Yield = never>(options: ExecFlowOptions<Output, Input, Yield> & {
       deps?: never
       fn?: never
@@ -74,6 +131,10 @@ export namespace Lite {
       Result,
     >(options: ExecDepsOptions<D, Args, Result>): Promise<Awaited<Result>>
     runStream<Output, Yield, Input>(options: ExecFlowOptions<Output, Input, Yield>): FlowStream<Yield, Output>
+    /** Like `run` for a flow, but settles with an `ExecResult` instead of throwing. */
+    tryRun<Output, Input, Fault = never>(
+      options: ExecFlowOptions<Output, Input> & { flow: Flow<Output, Input, Fault, any> }
+    ): Promise<ExecResult<Output, Fault>>
     createContext(options?: CreateContextOptions): ExecutionContext
     on<Args extends unknown[]>(
       event: AtomState,
@@ -97,6 +158,12 @@ export namespace Lite {
     tags?: TagInput
     parent?: ExecutionContext
     signal?: AbortSignal
+    /** Milliseconds from creation until `signal` aborts with a `TimeoutError`. */
+    timeout?: number
+    /** Epoch milliseconds at which `signal` aborts with a `TimeoutError`. */
+    deadline?: number
+    /** Flow and resource presets for this context and its children; atoms stay scope-level. */
+    presets?: Preset<any, any, any>[]
   }
 
   export interface ScopeOptions {
@@ -104,6 +171,49 @@ export namespace Lite {
     tags?: TagInput
     presets?: Preset<any, any, any>[]
     gc?: GCOptions
+    /** Values from `scope.snapshot()` that seed serializable atoms without running their factories. */
+    hydrate?: Snapshot
+    /** Atoms resolved with `scope.warm()` before `ready` settles. */
+    warm?: readonly Atom<unknown>[]
+    /**
+     * Check for atom and resource dependency cycles when the scope is created, throwing before
+     * anything resolves. `true` walks preset targets; a list also walks those dependencies.
+     */
+    validate?: boolean | readonly Dependency[]
+  }
+
+  /** Resolved values of serializable atoms, keyed by atom name. */
+  export type Snapshot = { readonly [name: string]: JsonValue }
+
+  export interface ShutdownOptions {
+    /** Milliseconds to wait for open contexts before aborting them. Default: 30000 */
+    drainMs?: number
+    /** Ends the drain wait early when aborted. */
+    signal?: AbortSignal
+  }
+
+  export interface ShutdownReport {
+    /** Root contexts still open when draining ended, aborted and closed by the shutdown. */
+    readonly forced: readonly ExecutionContext[]
+  }
+
+  export interface ForkOptions {
+    /** Added to the parent's presets; a preset atom and its dependents diverge from the parent. */
+    presets?: Preset<any, any, any>[]
+    /** Override parent tag families by key; atoms requesting them diverge from the parent. */
+    tags?: TagInput
+    /** Run after the parent's extensions; only these are initialized and disposed by the fork. */
+    extensions?: Extension[]
+  }
+
+  export interface WarmOptions {
+    /** Maximum atoms resolving at once. Default: unbounded */
+    concurrency?: number
+  }
+
+  export interface WarmupFailure {
+    readonly atom: Atom<unknown>
+    readonly error: unknown
   }
 
   export interface GCOptions {
@@ -115,10 +225,84 @@ export namespace Lite {
 
   export interface Atom<T> {
     readonly [atomSymbol]: true
+    /** Diagnostic label used by errors, traces, and invalidation reports. */
+    readonly name?: string
     readonly factory: AtomFactory<T, Record<string, Dependency>>
     readonly deps?: Record<string, Dependency>
     readonly tags?: Tagged<any>[]
     readonly keepAlive?: boolean
+    /** Includes the resolved value in `scope.snapshot()` under `name`. */
+    readonly serializable?: boolean
+    /**
+     * Compares a re-resolved or set value with the current one. Equal values keep the current
+     * reference and skip `'resolved'` listeners and watch invalidation. Without it every value notifies.
+     */
+    eq?(prev: T, next: T): boolean
+    readonly refresh?: AtomRefreshPolicy
+    readonly persist?: AtomPersistPolicy<T>
+  }
+
+  /**
+   * Background re-resolution for an atom. A refresh re-runs the factory like `invalidate()`;
+   * the previous value stays readable while it runs, and its cleanups wait until a new value
+   * replaces it, so a failed refresh keeps it intact.
+   */
+  export interface AtomRefreshPolicy {
+    /** Refreshes this long after each resolution while the atom has listeners or cached dependents. */
+    intervalMs?: number
+    /** A `resolve()` of a value older than this returns it and refreshes in the background. */
+    staleMs?: number
+    /** Receives refresh failures. Without it they reject the scope's next `flush()`. */
+    onError?: (error: Error) => void
+  }
+
+  /**
+   * Keeps an atom's value in a storage adapter. The first resolution in a scope uses a stored value
+   * instead of running the factory, so the factory's side effects and `ctx.cleanup` callbacks are
+   * skipped until the atom is invalidated; `set` and `update` write the new value back as strict JSON.
+   */
+  export interface AtomPersistPolicy<T> {
+    readonly storage: PersistStorage
+    /** Storage key. Default: the atom's `name`. */
+    readonly key?: string
+    /** Schema version stored with each value. Default: `0`. */
+    readonly version?: number
+    /**
+     * Upgrades a value stored under an older `version`; without it older values are ignored. The
+     * result must be serializable and goes through `parse` like a current value.
+     */
+    readonly migrate?: (value: JsonValue, fromVersion: number) => MaybePromise<T>
+    /**
+     * Checks a stored or migrated value before it stands in for the factory.
+     * Failures reject with a `ParseError` reported like other read failures, and the factory runs
+     * instead. Without it the stored JSON is trusted as `T`.
+     */
+    readonly parse?: ((raw: JsonValue) => MaybePromise<T>) | StandardSchemaV1<unknown, T>
+    /** Coalesces writes within this window; pending writes still land on release and dispose. */
+    readonly debounceMs?: number
+    /**
+     * Receives read and write failures, including values stored under a newer `version`.
+     * Without it they reject the scope's next `flush()`.
+     */
+    readonly onError?: (error: Error) => void
+  }
+
+  /** String key-value store used by `persist`; `localStorage` satisfies it directly. */
+  export interface PersistStorage {
+    getItem(key: string): MaybePromise<string | null | undefined>
+    setItem(key: string, value: string): MaybePromise<void>
+  }
+
+  /**
+   * Keyed set of atoms created by `atomFamily()`. Calling it returns the same atom for the same
+   * key while that atom is referenced, so every key gets its own entry, controller, cleanups, and GC.
+   */
+  export interface AtomFamily<T, Param> {
+    readonly [atomFamilySymbol]: true
+    readonly name?: string
+    (param: Param): Atom<T>
+    /** Keys whose factory has run in `scope` and whose value has not been released or invalidated since. */
+    keys(scope: Scope): string[]
   }
 
   export interface Flow<Output, Input = unknown, Fault = never, Yield = never> {
@@ -131,6 +315,70 @@ export namespace Lite {
     /** Phantom marker carrying the flow's declared fault type; never assigned at runtime. */
     readonly faultType?: Fault
     readonly yieldType?: Yield
+    readonly retry?: RetryPolicy
+    readonly cache?: FlowCachePolicy<Input>
+    readonly batch?: FlowBatchPolicy<Input>
+  }
+
+  /**
+   * Coalesces concurrent executions of a flow into one `loader` run per owning
+   * execution context boundary. Created by `batchedFlow`.
+   */
+  export interface FlowBatchPolicy<Input> {
+    /** Dedupes inputs within one batch. Default: `String(input)` */
+    key?(input: Input): string
+    /** Milliseconds to keep collecting after the first call. Default: 0, the current tick */
+    windowMs?: number
+    /** Dispatches as soon as this many distinct keys are queued. */
+    maxBatchSize?: number
+    /** Receives the distinct inputs and returns one result per input, in order. */
+    readonly loader: Flow<readonly ExecResult<unknown, unknown>[], readonly Input[], any>
+  }
+
+  /**
+   * Memoizes successful `exec` results by a key derived from the parsed input.
+   * Concurrent calls with the same key share one in-flight run; failures are not cached.
+   */
+  export interface FlowCachePolicy<Input> {
+    /** Derives the cache key from the parsed input. */
+    key(input: Input): string
+    /** Milliseconds a settled result stays fresh; the entry is dropped once it expires. Default: until invalidated or the owner closes */
+    ttlMs?: number
+    /**
+     * `"scope"` shares entries across contexts until the scope is disposed, running each in a scope-level
+     * context detached from the caller; `"context"` keeps them on the nearest execution context boundary
+     * until it closes. Default: "context"
+     */
+    owner?: "scope" | "context"
+  }
+
+  export interface FlowCacheHandle {
+    /** Drops the entry for `key`, or every entry of the flow when omitted. Waiting callers still settle. */
+    invalidate(key?: string): void
+    /** True while a fresh or in-flight entry exists for `key`. */
+    has(key: string): boolean
+  }
+
+  /**
+   * Re-runs a failed flow factory in a fresh child context. Each attempt passes
+   * through `wrapExec` with its number on `ctx.attempt`. Streaming flows run once.
+   */
+  export interface RetryPolicy {
+    /** Maximum runs, including the first. Default: 3 */
+    attempts?: number
+    /** Delay before the first retry (ms). Default: 100 */
+    delayMs?: number
+    /** Multiplier applied to the delay after each retry. Default: 2 */
+    factor?: number
+    /** Upper bound for one delay (ms). Default: 30000 */
+    maxDelayMs?: number
+    /** Fraction of each delay removed at random, from 0 to 1. Default: 0.2 */
+    jitter?: number
+    /**
+     * Return false to stop retrying. Declared faults arrive as `FlowFault`;
+     * narrow them with `isFault(flow, error)`. Default: retry every error.
+     */
+    shouldRetry?(error: unknown, attempt: number): boolean
   }
 
   export interface FlowRunOptions {
@@ -171,9 +419,11 @@ export namespace Lite {
     execStream(): FlowStream<Yield, Output>
   }
 
-  export interface FlowHandle<Output, Input, Yield = never> {
+  export interface FlowHandle<Output, Input, Yield = never, Fault = never> {
     readonly flow: Flow<Output, Input, any, Yield>
     exec(...args: FlowExecArgs<Input>): Promise<Output>
+    /** Like `exec`, but settles with an `ExecResult` instead of throwing. */
+    tryExec(...args: FlowExecArgs<Input>): Promise<ExecResult<Output, Fault>>
     execStream(...args: FlowExecArgs<Input>): FlowStream<Yield, Output>
     prepare(...args: FlowPrepareArgs<Input>): FlowInvocation<Output, Input, Yield>
   }
@@ -332,7 +582,30 @@ export namespace Lite {
     readonly data: ContextData
   }
 
-  export type CloseResult = { ok: true } | { ok: false; error: unknown; readonly aborted?: true }
+  export type CloseResult =
+    | { ok: true }
+    | {
+        ok: false
+        error: unknown
+        readonly aborted?: true
+        /** Compensations that threw while the context closed, in the order they ran. */
+        readonly compensationFailures?: readonly CompensationFailure[]
+      }
+
+  /** A step registered with `ctx.compensate`, as seen by extensions and failure reports. */
+  export interface Compensation {
+    /** The context that registered the step. */
+    readonly ctx: ExecutionContext
+    readonly fn: (...args: any[]) => MaybePromise<void>
+    readonly params: readonly unknown[]
+  }
+
+  export interface CompensationFailure {
+    readonly compensation: Compensation
+    readonly error: unknown
+    /** Runs the compensation again through `wrapCompensate`; rejects if it fails again. */
+    retry(): Promise<void>
+  }
 
   export type FlowStream<Yield, Output> = AsyncIterable<Yield> & {
     readonly result: Promise<Output>
@@ -341,6 +614,12 @@ export namespace Lite {
   export interface ExecutionContext<Fault = never> {
     readonly input: unknown
     readonly name: string | undefined
+    /** 1-based attempt number when the execution runs under a retry policy. */
+    readonly attempt: number | undefined
+    /** Epoch milliseconds at which `signal` aborts with a `TimeoutError`, inherited from parents. */
+    readonly deadline: number | undefined
+    /** Milliseconds left before `deadline`, never below 0; undefined without a deadline. */
+    readonly remainingMs: number | undefined
     readonly scope: Scope
     readonly parent: ExecutionContext | undefined
     readonly signal: AbortSignal
@@ -361,11 +640,23 @@ export namespace Lite {
       Result,
     >(options: ExecDepsOptions<D, Args, Result>): Promise<Awaited<Result>>
     execStream<Output, Yield, Input>(options: ExecFlowOptions<Output, Input, Yield>): FlowStream<Yield, Output>
+    /** Like `exec`, but settles with an `ExecResult` instead of throwing. */
+    tryExec<Output, Input, Fault = never>(
+      options: ExecFlowOptions<Output, Input> & { flow: Flow<Output, Input, Fault, any> }
+    ): Promise<ExecResult<Output, Fault>>
     /**
      * Executes a streaming child with inherited context data without joining its eventual settlement.
      * Abandonment aborts and closes the child while late yields and settlement are ignored.
      */
     execDetachedStream<Output, Yield, Input>(options: ExecFlowOptions<Output, Input, Yield>): FlowStream<Yield, Output>
+    /** Runs child flows concurrently; the first failure aborts the running siblings and skips the rest. */
+    all<const T extends readonly ExecEntry[]>(entries: ExecEntries<T>, options?: ParallelOptions): Promise<ExecOutputs<T>>
+    /** Runs every child flow to settlement and reports each outcome with its declared fault. */
+    allSettled<const T extends readonly ExecEntry[]>(entries: ExecEntries<T>, options?: ParallelOptions): Promise<ExecSettledResults<T>>
+    /** Settles with the first child to settle and aborts the others. */
+    race<const T extends readonly ExecEntry[]>(entries: ExecEntries<T>, options?: ParallelOptions): Promise<ExecOutputs<T>[number]>
+    /** Resolves with the first child to succeed and aborts the others; rejects with an `AggregateError` when all fail. */
+    any<const T extends readonly ExecEntry[]>(entries: ExecEntries<T>, options?: ParallelOptions): Promise<ExecOutputs<T>[number]>
     changes<T>(atom: Atom<T>): AsyncIterable<T>
     changes<T>(atom: Atom<T>, options: ChangesOptions): AsyncIterable<AtomChange<T>>
     changes<T>(handle: SelectHandle<T>): AsyncIterable<T>
@@ -375,6 +666,14 @@ export namespace Lite {
       ...params: Args
     ): () => void
     close(result?: CloseResult): Promise<void>
+    /**
+     * Registers a step that undoes work if the context closes with `{ ok: false }`.
+     * Steps run in reverse registration order before `onClose` callbacks; a child
+     * that closes successfully hands its steps to its parent.
+     */
+    compensate<Args extends unknown[]>(fn: (...args: Args) => MaybePromise<void>, ...params: Args): () => void
+    /** Handle over the cache entries `flow` would use when executed from this context. */
+    flowCache(flow: Flow<any, any, any, any>): FlowCacheHandle
     /** Throws a `FlowFault` carrying `fault`, tagged with the executing flow's name. */
     fail(fault: Fault): never
   }
@@ -388,6 +687,14 @@ export namespace Lite {
     name?: string
     tags?: TagInput
     signal?: AbortSignal
+    /** Milliseconds the child may run; each retry attempt gets its own budget. */
+    timeout?: number
+    /** Epoch milliseconds the child must finish by, capped by the parent's deadline. */
+    deadline?: number
+    /** Overrides the flow's retry policy for this call; `false` disables it. Streams ignore it. */
+    retry?: RetryPolicy | false
+    /** Flow and resource presets for this execution and everything it runs; atoms stay scope-level. */
+    presets?: Preset<any, any, any>[]
   } & (
     | ([NoInfer<Input>] extends [void | undefined | null]
         ? { input?: undefined | null; rawInput?: never }
@@ -395,6 +702,44 @@ export namespace Lite {
     | { rawInput: unknown; input?: never }
   )
 
+  export type ExecEntry = { readonly flow: Flow<any, any, any, any> }
+
+  /** Checks each entry against its own flow's input, as `exec` does. */
+  export type ExecEntries<T extends readonly ExecEntry[]> = {
+    [K in keyof T]: T[K] extends { flow: Flow<infer O, infer I, any, infer Y> } ? ExecFlowOptions<O, I, Y> : T[K]
+  }
+
+  export type ExecOutputs<T extends readonly ExecEntry[]> = {
+    -readonly [K in keyof T]: T[K] extends { flow: Flow<infer O, any, any, any> } ? O : never
+  }
+
+  /**
+   * Outcome of `tryExec`/`tryRun`. `fault` is set only for a `FlowFault` raised by the executed flow
+   * instance itself; every other failure, including faults from nested flows, arrives as `error`.
+   */
+  export type ExecResult<Output, Fault = never> =
+    | { readonly ok: true; readonly value: Output }
+    | { readonly ok: false; readonly fault: Fault }
+    | { readonly ok: false; readonly error: unknown }
+
+  export type ExecSettledResult<Output, Fault = never> =
+    | { readonly status: "fulfilled"; readonly value: Output }
+    | {
+        readonly status: "rejected"
+        readonly reason: unknown
+        /** The declared fault when `reason` is a `FlowFault` from this entry's flow. */
+        readonly fault: Fault | undefined
+      }
+
+  export type ExecSettledResults<T extends readonly ExecEntry[]> = {
+    -readonly [K in keyof T]: T[K] extends { flow: Flow<infer O, any, infer F, any> } ? ExecSettledResult<O, F> : never
+  }
+
+  export interface ParallelOptions {
+    /** Maximum children running at once. Default: unbounded */
+    concurrency?: number
+  }
+
   export type ExecDepsOptions<
     D extends Record<string, ExecutionDependency>,
     Args extends unknown[],
@@ -406,6 +751,8 @@ export namespace Lite {
     params: Args
     tags?: TagInput
     signal?: AbortSignal
+    timeout?: number
+    deadline?: number
     flow?: never
   } & (Extract<
     Awaited<Result>,
@@ -422,6 +769,8 @@ export namespace Lite {
     params: Args
     tags?: TagInput
     signal?: AbortSignal
+    timeout?: number
+    deadline?: number
     flow?: never
   } & (Extract<
     Awaited<Result>,
@@ -528,6 +877,7 @@ export namespace Lite {
     readonly serializable: Serializable
     readonly defaultValue: HasDefault extends true ? T : undefined
     readonly hasDefault: HasDefault
+    /** Synchronous validator applied to every tagged value. */
     readonly parse?: (raw: unknown) => T
     eq(a: T, b: T): boolean
     (value: T, options?: TaggedOptions): Tagged<T, Serializable>
@@ -548,9 +898,10 @@ export namespace Lite {
 
   /**
    * Declaration-layer membership key: discriminates carriers of the same tag.
-   * Attributes never enter a scope or an execution context. A carrier's bindings
-   * of one attribute form its membership set, read with `has` and `collect`.
-   * `select` marks whether application picking polices facts of this attribute
+   * Attributes are never stored as values in a scope or an execution context; they
+   * travel with their carrier. A carrier's bindings of one attribute form its
+   * membership set, read with `has` and `collect`. `select` marks whether application
+   * picking (`tags.pick`, `tags.all` filters) may match facts of this attribute
    * (default true); consumer-owned attributes declare `select: false`.
    */
   export interface Attribute<T> {
@@ -597,7 +948,9 @@ export namespace Lite {
   export interface TagExecutor<Output, Value = Output> {
     readonly [tagExecutorSymbol]: true
     readonly tag: Tag<Value, boolean>
-    readonly mode: "required" | "optional" | "all"
+    readonly mode: "required" | "optional" | "all" | "pick"
+    /** Attribute bindings every matched value must carry; used by `pick` and filtered `all`. */
+    readonly attributes?: readonly Attributed<any>[]
   }
 
   export interface AtomControllerDep<T> {
@@ -618,17 +971,34 @@ export namespace Lite {
     readonly eq?: (a: any, b: any) => boolean
   }
 
-  export interface FlowControllerDep<Output, Input, Yield = never> {
+  export interface FlowControllerDep<Output, Input, Yield = never, Fault = never> {
     readonly [controllerDepSymbol]: true
     readonly atom?: undefined
     readonly resource?: undefined
-    readonly flow: Flow<Output, Input, any, Yield>
+    readonly flow: Flow<Output, Input, Fault, Yield>
     readonly name?: string
     readonly tags?: Tagged<any>[]
     readonly key?: string
+    readonly mapFaults?: (fault: any) => unknown
+  }
+
+  /**
+   * Flow controller dependency whose handle translates the child's declared faults
+   * into the depending flow's faults. Returning `undefined` leaves a fault unmapped.
+   */
+  export interface MappedFlowControllerDep<Output, Input, Yield, Fault, Mapped>
+    extends FlowControllerDep<Output, Input, Yield, Fault> {
+    readonly mapFaults: (fault: Fault) => Mapped
+  }
+
+  /** Requires every `mapFaults` in `D` to return only faults declared as `Fault`. */
+  export type MappedFaultDeps<D, Fault> = {
+    readonly [K in keyof D]: D[K] extends MappedFlowControllerDep<any, any, any, any, infer Mapped>
+      ? [Mapped] extends [Fault] ? D[K] : { readonly mapFaults: (fault: never) => Fault }
+      : D[K]
   }
 
-  export type ControllerDep<T> = AtomControllerDep<T> | ResourceControllerDep<T> | FlowControllerDep<any, any, any>
+  export type ControllerDep<T> = AtomControllerDep<T> | ResourceControllerDep<T> | FlowControllerDep<any, any, any, any>
 
   export type WatchControllerDep<T> = AtomControllerDep<T> & {
     readonly resolve: true
@@ -670,6 +1040,35 @@ export namespace Lite {
     readonly [typedSymbol]: true
   }
 
+  /**
+   * Any Standard Schema v1 validator (zod, valibot, arktype, ...), accepted directly by
+   * `flow({ parse })` and `tag({ parse })`. Flows await async validation; tags validate when the
+   * tagged value is created and reject schemas that return a Promise. See https://standardschema.dev.
+   */
+  export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly "~standard": {
+      readonly version: 1
+      readonly vendor: string
+      readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+      readonly types?: { readonly input: Input; readonly output: Output } | undefined
+    }
+  }
+
+  export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly StandardSchemaIssue[] }
+
+  export interface StandardSchemaIssue {
+    readonly message: string
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined
+  }
+
+  /** Schema issue with its path flattened to plain keys; `[]` marks the root value. */
+  export interface ParseIssue {
+    readonly message: string
+    readonly path: readonly PropertyKey[]
+  }
+
   export type PresetTarget<T, I = unknown, Y = never> = Atom<T> | Flow<T, I, any, Y> | Resource<T>
 
   export type PresetValue<T, I = unknown, Y = never> =
@@ -743,9 +1142,54 @@ export namespace Lite {
       target: ExecTarget,
       ctx: ExecutionContext
     ): Promise<unknown>
+    /** Wraps each compensation run, including `CompensationFailure.retry()`; `ctx` is the closing context. */
+    wrapCompensate?(
+      next: () => Promise<void>,
+      compensation: Compensation,
+      ctx: ExecutionContext
+    ): Promise<void>
     dispose?(scope: Scope): MaybePromise<void>
   }
 
+  export interface Graph {
+    /** Ids of the targets passed to `inspect()`. */
+    readonly roots: readonly string[]
+    readonly nodes: readonly GraphNode[]
+    readonly edges: readonly GraphEdge[]
+    readonly issues: readonly GraphIssue[]
+  }
+
+  export interface GraphNode {
+    readonly id: string
+    readonly kind: "atom" | "flow" | "resource" | "tag"
+    /** Atom, flow, or resource name, or the tag label. */
+    readonly label: string
+    /** Set on tag nodes. */
+    readonly hasDefault?: boolean
+  }
+
+  export interface GraphEdge {
+    /** Id of the dependent node. */
+    readonly from: string
+    /** Id of the dependency node. */
+    readonly to: string
+    /** Key in the dependent's `deps`. */
+    readonly key: string
+    /** `value` for plain deps, `controller` for controller deps, or the tag executor mode. */
+    readonly via: "value" | "controller" | TagExecutor<unknown>["mode"]
+  }
+
+  export interface GraphIssue {
+    readonly kind: "atom-resource" | "missing-tag-default"
+    /** Id of the flagged resource or tag node. */
+    readonly node: string
+    /** Id of the atom reaching the resource, or of the node requiring the tag. */
+    readonly from: string
+    readonly message: string
+  }
+
+  export type GraphFormat = "dot" | "mermaid" | "json"
+
   export type JsonValue =
     | string
     | number
@@ -766,7 +1210,7 @@ export namespace Lite {
   export type ExecutionDependency =
     | Atom<unknown>
     | Flow<any, any, any, any>
-    | FlowControllerDep<any, any, any>
+    | FlowControllerDep<any, any, any, any>
     | NonWatchControllerDep<unknown>
     | NonWatchResourceControllerDep<unknown>
     | TagExecutor<any, any>
@@ -775,7 +1219,7 @@ export namespace Lite {
   export type ResourceDependency =
     | Atom<unknown>
     | Flow<any, any, any, any>
-    | FlowControllerDep<any, any, any>
+    | FlowControllerDep<any, any, any, any>
     | NonWatchControllerDep<unknown>
     | ResourceControllerDep<unknown>
     | TagExecutor<any, any>
@@ -783,16 +1227,18 @@ export namespace Lite {
 
   export type Projected<V> = V extends readonly (infer E)[]
     ? Projected<E>[]
-    : V extends Flow<infer Output, infer Input, any, infer Yield>
-      ? FlowHandle<Output, Input, Yield>
+    : V extends Flow<infer Output, infer Input, infer Fault, infer Yield>
+      ? FlowHandle<Output, Input, Yield, Fault>
       : V
 
   export type InferDep<D> = D extends Atom<infer T>
     ? T
-    : D extends Flow<infer Output, infer Input, any, infer Yield>
-      ? FlowHandle<Output, Input, Yield>
-    : D extends FlowControllerDep<infer Output, infer Input, infer Yield>
-      ? FlowHandle<Output, Input, Yield>
+    : D extends Flow<infer Output, infer Input, infer Fault, infer Yield>
+      ? FlowHandle<Output, Input, Yield, Fault>
+    : D extends MappedFlowControllerDep<infer Output, infer Input, infer Yield, any, infer Mapped>
+      ? FlowHandle<Output, Input, Yield, Mapped>
+    : D extends FlowControllerDep<infer Output, infer Input, infer Yield, infer Fault>
+      ? FlowHandle<Output, Input, Yield, Fault>
     : D extends AtomControllerDep<infer T>
       ? Controller<T>
     : D extends ResourceControllerDep<infer T>
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope, shallowEqual } from "../src/index"
+
+describe("atom eq", () => {
+  it("keeps an equal re-resolved value and stops downstream invalidation", async () => {
+    let fetches = 0
+    let builds = 0
+    const config = atom({
+      name: "config",
+      factory: () => {
+        fetches++
+        return { region: "eu", replicas: 3 }
+      },
+      eq: shallowEqual,
+    })
+    const cluster = atom({
+      deps: { config: controller(config, { resolve: true, watch: true, eq: () => false }) },
+      factory: (_, { config }) => {
+        builds++
+        return `${config.get().region}x${config.get().replicas}`
+      },
+    })
+    const scope = createScope()
+    await scope.resolve(cluster)
+    const ctrl = scope.controller(config)
+    const first = ctrl.get()
+    const events: string[] = []
+    ctrl.on("resolved", () => events.push("resolved"))
+    ctrl.on("*", () => events.push(ctrl.state))
+
+    ctrl.invalidate()
+    await scope.flush()
+    expect(fetches).toBe(2)
+    expect(ctrl.get()).toBe(first)
+    expect(builds).toBe(1)
+    expect(events).toEqual(["resolving", "resolved"])
+  })
+
+  it("skips set and update calls that produce an equal value", async () => {
+    const count = atom({ factory: () => 1, eq: Object.is })
+    const range = atom({
+      factory: () => ({ min: 0, max: 10 }),
+      eq: (prev, next) => prev.min === next.min && prev.max === next.max,
+    })
+    const scope = createScope()
+    const countCtrl = await scope.controller(count, { resolve: true })
+    const rangeCtrl = await scope.controller(range, { resolve: true })
+    const seen: string[] = []
+    countCtrl.on("resolved", () => seen.push(`count:${countCtrl.get()}`))
+    rangeCtrl.on("resolved", () => seen.push(`range:${rangeCtrl.get().max}`))
+
+    countCtrl.set(1)
+    countCtrl.update((n) => n * 1)
+    rangeCtrl.set({ min: 0, max: 10 })
+    rangeCtrl.update((r) => ({ ...r }))
+    await scope.flush()
+    expect(seen).toEqual([])
+
+    countCtrl.set(2)
+    rangeCtrl.update((r) => ({ ...r, max: 20 }))
+    await scope.flush()
+    expect(seen).toEqual(["count:2", "range:20"])
+  })
+
+  it("notifies every write and re-resolution of atoms without eq", async () => {
+    const count = atom({ factory: () => 1 })
+    const scope = createScope()
+    const ctrl = await scope.controller(count, { resolve: true })
+    let notified = 0
+    ctrl.on("resolved", () => notified++)
+
+    ctrl.set(1)
+    await scope.flush()
+    ctrl.invalidate()
+    await scope.flush()
+    expect(notified).toBe(2)
+  })
+
+  it("notifies when eq reports a change even for the same reference", async () => {
+    const items: string[] = []
+    const list = atom({ factory: () => items, eq: () => false })
+    const scope = createScope()
+    const ctrl = await scope.controller(list, { resolve: true })
+    let notified = 0
+    ctrl.on("resolved", () => notified++)
+
+    items.push("a")
+    ctrl.set(items)
+    await scope.flush()
+    expect(notified).toBe(1)
+  })
+})
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest"
+import { atom, createScope } from "../src/index"
+
+describe("atom refresh", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function rates(options: { fail?: () => boolean } = {}) {
+    let version = 0
+    const calls = { count: 0 }
+    const factory = async () => {
+      calls.count++
+      await new Promise((r) => setTimeout(r, 10))
+      if (options.fail?.()) throw new Error("rates unavailable")
+      return { version: ++version }
+    }
+    return { factory, calls }
+  }
+
+  it("refreshes in the background while observed and serves the previous value meanwhile", async () => {
+    const { factory, calls } = rates()
+    const fx = atom({ factory, refresh: { intervalMs: 1000 } })
+    const scope = createScope()
+    const resolving = scope.resolve(fx)
+    await vi.advanceTimersByTimeAsync(10)
+    await resolving
+    const ctrl = scope.controller(fx)
+    const seen: number[] = []
+    ctrl.on("resolved", () => seen.push(ctrl.get().version))
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(ctrl.state).toBe("resolving")
+    expect(ctrl.get()).toEqual({ version: 1 })
+
+    await vi.advanceTimersByTimeAsync(10)
+    expect(ctrl.get()).toEqual({ version: 2 })
+    await vi.advanceTimersByTimeAsync(1010)
+    expect(seen).toEqual([2, 3])
+    expect(calls.count).toBe(3)
+    await scope.dispose()
+  })
+
+  it("skips refreshes while nothing observes the atom", async () => {
+    const { factory, calls } = rates()
+    const fx = atom({ factory, refresh: { intervalMs: 1000 } })
+    const scope = createScope()
+    const resolving = scope.resolve(fx)
+    await vi.advanceTimersByTimeAsync(10)
+    await resolving
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(calls.count).toBe(1)
+
+    const unsubscribe = scope.controller(fx).on("resolved", () => {})
+    await vi.advanceTimersByTimeAsync(1010)
+    expect(calls.count).toBe(2)
+    unsubscribe()
+    await scope.dispose()
+  })
+
+  it("keeps the last good value when a refresh fails", async () => {
+    let failing = false
+    const errors: string[] = []
+    const reported = atom({
+      factory: rates({ fail: () => failing }).factory,
+      refresh: { intervalMs: 1000, onError: (error) => errors.push(error.message) },
+    })
+    const silent = atom({ factory: rates({ fail: () => failing }).factory, refresh: { intervalMs: 1000 } })
+    const scope = createScope()
+    const resolving = Promise.all([scope.resolve(reported), scope.resolve(silent)])
+    await vi.advanceTimersByTimeAsync(10)
+    await resolving
+    const states: string[] = []
+    const ctrl = scope.controller(reported)
+    ctrl.on("*", () => states.push(ctrl.state))
+    scope.controller(silent).on("resolved", () => {})
+
+    failing = true
+    await vi.advanceTimersByTimeAsync(1030)
+    expect(errors).toEqual(["rates unavailable"])
+    expect(states).toEqual(["resolving", "resolved"])
+    expect(ctrl.get()).toEqual({ version: 1 })
+    expect(scope.controller(silent).get()).toEqual({ version: 1 })
+    await expect(scope.flush()).rejects.toThrow("rates unavailable")
+
+    failing = false
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(ctrl.get()).toEqual({ version: 2 })
+    await scope.dispose()
+  })
+
+  it("keeps an unreported refresh failure for flush across unrelated invalidations", async () => {
+    let failing = false
+    const silent = atom({ factory: rates({ fail: () => failing }).factory, refresh: { intervalMs: 1000 } })
+    const other = atom({ factory: () => 1 })
+    const scope = createScope()
+    const resolving = scope.resolve(silent)
+    await vi.advanceTimersByTimeAsync(10)
+    await resolving
+    scope.controller(silent).on("resolved", () => {})
+    const otherCtrl = await scope.controller(other, { resolve: true })
+
+    failing = true
+    await vi.advanceTimersByTimeAsync(1010)
+    otherCtrl.invalidate()
+    await vi.advanceTimersByTimeAsync(0)
+    await expect(scope.flush()).rejects.toThrow("rates unavailable")
+    await scope.dispose()
+  })
+
+  it("tears down the previous value only once a refresh replaces it", async () => {
+    let failing = false
+    let version = 0
+    const cleaned: number[] = []
+    const fx = atom({
+      factory: async (ctx) => {
+        await new Promise((r) => setTimeout(r, 10))
+        if (failing) throw new Error("rates unavailable")
+        const current = ++version
+        ctx.cleanup(() => { cleaned.push(current) })
+        return current
+      },
+      refresh: { intervalMs: 1000, onError: () => {} },
+    })
+    const scope = createScope()
+    const resolving = scope.resolve(fx)
+    await vi.advanceTimersByTimeAsync(10)
+    await resolving
+    const ctrl = scope.controller(fx)
+    ctrl.on("resolved", () => {})
+
+    failing = true
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(cleaned).toEqual([])
+    await vi.advanceTimersByTimeAsync(10)
+    expect(ctrl.get()).toBe(1)
+    expect(cleaned).toEqual([])
+
+    failing = false
+    await vi.advanceTimersByTimeAsync(1010)
+    expect(ctrl.get()).toBe(2)
+    expect(cleaned).toEqual([1])
+    await scope.dispose()
+    expect(cleaned).toEqual([1, 2])
+  })
+
+  it("revalidates a stale value on resolve without waiting for it", async () => {
+    const { factory, calls } = rates()
+    const fx = atom({ factory, refresh: { staleMs: 500 } })
+    const scope = createScope()
+    const first = scope.resolve(fx)
+    await vi.advanceTimersByTimeAsync(10)
+    expect(await first).toEqual({ version: 1 })
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(await scope.resolve(fx)).toEqual({ version: 1 })
+    expect(calls.count).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(400)
+    expect(await scope.resolve(fx)).toEqual({ version: 1 })
+    await vi.advanceTimersByTimeAsync(10)
+    expect(calls.count).toBe(2)
+    expect(await scope.resolve(fx)).toEqual({ version: 2 })
+    await scope.dispose()
+  })
+
+  it("stops its timer on release and dispose", async () => {
+    const fx = atom({ factory: () => 1, refresh: { intervalMs: 1000 } })
+    const scope = createScope()
+    await scope.resolve(fx)
+    expect(vi.getTimerCount()).toBe(1)
+    await scope.release(fx)
+    expect(vi.getTimerCount()).toBe(0)
+
+    await scope.resolve(fx)
+    expect(vi.getTimerCount()).toBe(1)
+    await scope.dispose()
+    expect(vi.getTimerCount()).toBe(0)
+    expect(() => atom({ factory: () => 1, refresh: { intervalMs: 0 } })).toThrow("Atom refresh intervalMs must be greater than 0")
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { attribute, flag, isAttribute, isAttributed, isTagged, tag } from "../src/index"
+import { atom, attribute, createScope, flag, flow, isAttribute, isAttributed, isTagged, tag, tags } from "../src/index"
 
 describe("attribute", () => {
   it("reads bindings as membership through has and collect", () => {
@@ -124,3 +124,79 @@ describe("attribute", () => {
     expect(() => server.has(cyclic as never, "x")).toThrow("attributes must not contain cyclic arrays")
   })
 })
+
+describe("attribute picking", () => {
+  const server = attribute<string>({ label: "example.pick.server" })
+  const zone = attribute<string>({ label: "example.pick.zone" })
+  const route = tag<string>({ label: "example.pick.route" })
+  const registry = [
+    route("/users", { attributes: [server("admin"), zone("internal")] }),
+    route("/audit", { attributes: [server("admin")] }),
+    route("/home", { attributes: [server("public")] }),
+    route("/plain"),
+  ]
+
+  it("filters tags.all and picks one value from scope tags", async () => {
+    const admin = atom({
+      deps: {
+        routes: tags.all(route, server("admin")),
+        internal: tags.pick(route, server("admin"), zone("internal")),
+        everything: tags.all(route),
+      },
+      factory: (_ctx, deps) => deps,
+    })
+    const scope = createScope({ tags: registry })
+
+    expect(await scope.resolve(admin)).toEqual({
+      routes: ["/users", "/audit"],
+      internal: "/users",
+      everything: ["/users", "/audit", "/home", "/plain"],
+    })
+  })
+
+  it("fails clearly when picking is ambiguous or finds nothing", async () => {
+    const ambiguous = atom({ deps: { route: tags.pick(route, server("admin")) }, factory: (_ctx, { route }) => route })
+    const missing = atom({ deps: { route: tags.pick(route, server("edge")) }, factory: (_ctx, { route }) => route })
+    const fallback = tag<string>({ label: "example.pick.fallback", default: "/" })
+    const defaulted = atom({ deps: { route: tags.pick(fallback, server("edge")) }, factory: (_ctx, { route }) => route })
+    const scope = createScope({ tags: registry })
+
+    await expect(scope.resolve(ambiguous)).rejects.toThrow(
+      'Ambiguous pick for tag "example.pick.route": 2 values match example.pick.server(admin)',
+    )
+    await expect(scope.resolve(missing)).rejects.toThrow(
+      'Tag "example.pick.route" has no value matching example.pick.server(edge) and has no default',
+    )
+    expect(await scope.resolve(defaulted)).toBe("/")
+  })
+
+  it("matches attributes carried through execution contexts", async () => {
+    const handler = flow({
+      deps: { admin: tags.all(route, server("admin")), home: tags.pick(route, server("public")) },
+      factory: (_ctx, deps) => deps,
+    })
+    const scope = createScope({ tags: registry })
+    const ctx = scope.createContext()
+
+    expect(await ctx.exec({ flow: handler })).toEqual({ admin: ["/users", "/audit"], home: "/home" })
+
+    ctx.tags.set([route("/ops", { attributes: [server("admin")] }), route("/landing", { attributes: [server("public")] })])
+    expect(await ctx.exec({ flow: handler })).toEqual({ admin: ["/ops"], home: "/landing" })
+
+    expect(await ctx.exec({
+      flow: handler,
+      tags: [route("/beta", { attributes: [server("public")] })],
+    })).toEqual({ admin: ["/ops"], home: "/beta" })
+    await ctx.close()
+  })
+
+  it("rejects attributes that do not participate in picking", () => {
+    const consumer = attribute<string>({ label: "example.pick.consumer", select: false })
+    const internal = flag({ label: "example.pick.internal" })
+
+    expect(() => tags.pick(route, consumer("x"))).toThrow(
+      'Attribute "example.pick.consumer" is declared with select: false and cannot be picked',
+    )
+    expect(() => tags.all(route, internal() as never)).toThrow("cannot be picked")
+  })
+})
@@ -0,0 +1,206 @@
+import { afterEach, describe, it, expect, vi } from "vitest"
+import { atom, batchedFlow, createScope, flow, isFault, TimeoutError, typed, type Lite } from "../src/index"
+
+describe("batchedFlow", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function users() {
+    const loads: string[][] = []
+    const table = atom({ factory: () => new Map([["ada", "Ada"], ["bob", "Bob"]]) })
+    const userById = batchedFlow({
+      name: "userById",
+      parse: typed<string>(),
+      faults: typed<{ kind: "not-found"; id: string }>(),
+      deps: { table },
+      load: (ctx, { table }) => {
+        loads.push([...ctx.input])
+        return ctx.input.map((id): Lite.ExecResult<string, { kind: "not-found"; id: string }> => {
+          const name = table.get(id)
+          return name ? { ok: true, value: name } : { ok: false, fault: { kind: "not-found", id } }
+        })
+      },
+    })
+    return { userById, loads }
+  }
+
+  it("coalesces calls from one context into a single deduped load", async () => {
+    const { userById, loads } = users()
+    const ctx = createScope().createContext()
+
+    const names = await Promise.all(
+      ["ada", "bob", "ada"].map((id) => ctx.exec({ flow: userById, input: id })),
+    )
+    expect(names).toEqual(["Ada", "Bob", "Ada"])
+    expect(loads).toEqual([["ada", "bob"]])
+    await ctx.close()
+  })
+
+  it("shares a batch across nested flows of one boundary but not across boundaries", async () => {
+    const { userById, loads } = users()
+    const resolver = flow({
+      parse: typed<string>(),
+      deps: { userById },
+      factory: (ctx, { userById }) => userById.exec({ input: ctx.input }),
+    })
+    const scope = createScope()
+    const first = scope.createContext()
+    const second = scope.createContext()
+
+    await Promise.all([
+      first.exec({ flow: resolver, input: "ada" }),
+      first.exec({ flow: resolver, input: "bob" }),
+      second.exec({ flow: userById, input: "bob" }),
+    ])
+    expect(loads).toEqual([["ada", "bob"], ["bob"]])
+    await Promise.all([first.close(), second.close()])
+  })
+
+  it("rejects each caller with its own fault or the load error", async () => {
+    const { userById } = users()
+    const ctx = createScope().createContext()
+
+    const [found, missing] = await Promise.allSettled([
+      ctx.exec({ flow: userById, input: "ada" }),
+      ctx.exec({ flow: userById, input: "zed" }),
+    ])
+    expect(found).toEqual({ status: "fulfilled", value: "Ada" })
+    const reason = (missing as PromiseRejectedResult).reason
+    expect(isFault(userById, reason) && reason.fault).toEqual({ kind: "not-found", id: "zed" })
+    expect(await ctx.tryExec({ flow: userById, input: "zed" })).toEqual({ ok: false, fault: { kind: "not-found", id: "zed" } })
+
+    const broken = batchedFlow({
+      name: "broken",
+      parse: typed<number>(),
+      load: (ctx) => ctx.input.slice(1).map((n) => ({ ok: true as const, value: n })),
+    })
+    await expect(ctx.exec({ flow: broken, input: 1 })).rejects.toThrow('batchedFlow "broken" load returned 0 results for 1 inputs')
+    await ctx.close()
+  })
+
+  it("waits for the window and dispatches early at maxBatchSize", async () => {
+    vi.useFakeTimers()
+    const loads: number[][] = []
+    const square = batchedFlow({
+      parse: typed<number>(),
+      windowMs: 50,
+      maxBatchSize: 2,
+      load: (ctx) => {
+        loads.push([...ctx.input])
+        return ctx.input.map((n) => ({ ok: true as const, value: n * n }))
+      },
+    })
+    const ctx = createScope().createContext()
+
+    const full = Promise.all([ctx.exec({ flow: square, input: 2 }), ctx.exec({ flow: square, input: 3 })])
+    const late = ctx.exec({ flow: square, input: 4 })
+    expect(await full).toEqual([4, 9])
+    expect(loads).toEqual([[2, 3]])
+
+    await vi.advanceTimersByTimeAsync(49)
+    expect(loads).toEqual([[2, 3]])
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await late).toBe(16)
+    expect(loads).toEqual([[2, 3], [4]])
+    await ctx.close()
+  })
+
+  it("rejects a throwing key without dispatching a batch", async () => {
+    const loads: string[][] = []
+    const keyed = batchedFlow({
+      parse: typed<string>(),
+      key: (input) => {
+        if (input === "bad") throw new Error("no key")
+        return input
+      },
+      load: (ctx) => {
+        loads.push([...ctx.input])
+        return ctx.input.map((value) => ({ ok: true as const, value }))
+      },
+    })
+    const ctx = createScope().createContext()
+
+    await expect(ctx.exec({ flow: keyed, input: "bad" })).rejects.toThrow("no key")
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(loads).toEqual([])
+    await ctx.close()
+  })
+
+  it("drops callers that time out or abort before dispatch", async () => {
+    vi.useFakeTimers()
+    const loads: number[][] = []
+    const square = batchedFlow({
+      parse: typed<number>(),
+      windowMs: 50,
+      load: (ctx) => {
+        loads.push([...ctx.input])
+        return ctx.input.map((n) => ({ ok: true as const, value: n * n }))
+      },
+    })
+    const ctx = createScope().createContext()
+    const controller = new AbortController()
+
+    const hurried = ctx.exec({ flow: square, input: 2, timeout: 10 })
+    const aborted = ctx.exec({ flow: square, input: 3, signal: controller.signal })
+    const patient = ctx.exec({ flow: square, input: 4 })
+    const timedOut = expect(hurried).rejects.toBeInstanceOf(TimeoutError)
+    const cancelled = expect(aborted).rejects.toBe("stop")
+    controller.abort("stop")
+    await vi.advanceTimersByTimeAsync(10)
+    await timedOut
+    await cancelled
+
+    await vi.advanceTimersByTimeAsync(40)
+    expect(await patient).toBe(16)
+    expect(loads).toEqual([[4]])
+    await ctx.close()
+  })
+
+  it("cancels a batch whose callers all gave up and clears pending windows on close", async () => {
+    vi.useFakeTimers()
+    const loads: number[][] = []
+    const square = batchedFlow({
+      parse: typed<number>(),
+      windowMs: 50,
+      load: (ctx) => {
+        loads.push([...ctx.input])
+        return ctx.input.map((n) => ({ ok: true as const, value: n * n }))
+      },
+    })
+    const ctx = createScope().createContext()
+
+    const gone = expect(ctx.exec({ flow: square, input: 2, timeout: 10 })).rejects.toBeInstanceOf(TimeoutError)
+    await vi.advanceTimersByTimeAsync(10)
+    await gone
+    expect(vi.getTimerCount()).toBe(0)
+
+    const pending = ctx.exec({ flow: square, input: 3 }).catch((error: unknown) => error)
+    const closing = ctx.close()
+    expect(vi.getTimerCount()).toBe(0)
+    expect(await pending).toBeInstanceOf(Error)
+    await closing
+    expect(loads).toEqual([])
+  })
+
+  it("keeps a child context per caller and runs the loader once through wrapExec", async () => {
+    const seen: string[] = []
+    const ext: Lite.Extension = {
+      name: "trace",
+      wrapExec: async (next, _target, ctx) => {
+        seen.push(`${ctx.name}:${JSON.stringify(ctx.input)}`)
+        return next()
+      },
+    }
+    const echo = batchedFlow({
+      name: "echo",
+      parse: typed<string>(),
+      load: (ctx) => ctx.input.map((value) => ({ ok: true as const, value })),
+    })
+    const ctx = createScope({ extensions: [ext] }).createContext()
+
+    await Promise.all([ctx.exec({ flow: echo, input: "a" }), ctx.exec({ flow: echo, input: "b" })])
+    expect(seen).toEqual(['echo:"a"', 'echo:"b"', 'echo.load:["a","b"]'])
+    await ctx.close()
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest"
+import { createScope, flow, typed, type Lite } from "../src/index"
+
+describe("ctx.compensate", () => {
+  function placement(log: string[], failAt?: string) {
+    const step = (name: string) => flow({
+      name,
+      factory: (ctx) => {
+        if (name === failAt) throw new Error(`${name} failed`)
+        log.push(`do:${name}`)
+        ctx.compensate((label: string) => { log.push(`undo:${label}`) }, name)
+        return name
+      },
+    })
+    const reserve = step("reserve")
+    const charge = step("charge")
+    const ship = step("ship")
+    return flow({
+      name: "placeOrder",
+      factory: async (ctx) => {
+        ctx.compensate(() => { log.push("undo:order") })
+        await ctx.exec({ flow: reserve })
+        await ctx.exec({ flow: charge })
+        await ctx.exec({ flow: ship })
+        return "placed"
+      },
+    })
+  }
+
+  it("runs steps from successful children in reverse order when the parent fails", async () => {
+    const log: string[] = []
+    const scope = createScope()
+
+    await expect(scope.run({ flow: placement(log, "ship") })).rejects.toThrow("ship failed")
+    expect(log).toEqual(["do:reserve", "do:charge", "undo:charge", "undo:reserve", "undo:order"])
+  })
+
+  it("skips compensation when the context closes successfully", async () => {
+    const log: string[] = []
+    const scope = createScope()
+    const ctx = scope.createContext()
+
+    expect(await ctx.exec({ flow: placement(log) })).toBe("placed")
+    await ctx.close()
+    expect(log).toEqual(["do:reserve", "do:charge", "do:ship"])
+  })
+
+  it("compensates a failed child on its own and honours unregistering", async () => {
+    const log: string[] = []
+    const partial = flow({
+      factory: (ctx) => {
+        ctx.compensate(() => { log.push("undo:a") })
+        const cancel = ctx.compensate(() => { log.push("undo:b") })
+        cancel()
+        throw new Error("partial")
+      },
+    })
+    const ctx = createScope().createContext()
+    ctx.compensate(() => { log.push("undo:root") })
+
+    await expect(ctx.exec({ flow: partial })).rejects.toThrow("partial")
+    expect(log).toEqual(["undo:a"])
+    await ctx.close()
+    expect(log).toEqual(["undo:a"])
+  })
+
+  it("passes steps from a child that outlives its parent's hand-off up to the next ancestor", async () => {
+    const log: string[] = []
+    let finish!: () => void
+    const slow = flow({
+      name: "slow",
+      factory: async (ctx) => {
+        await new Promise<void>((resolve) => { finish = resolve })
+        ctx.compensate(() => { log.push("undo:slow") })
+      },
+    })
+    const outer = flow({
+      name: "outer",
+      factory: (ctx) => {
+        void ctx.exec({ flow: slow })
+        return "started"
+      },
+    })
+    const ctx = createScope().createContext()
+
+    const pending = ctx.exec({ flow: outer })
+    await Promise.resolve()
+    finish()
+    expect(await pending).toBe("started")
+    await ctx.close({ ok: false, error: new Error("rolled back") })
+    expect(log).toEqual(["undo:slow"])
+  })
+
+  it("reports failed compensations on the close result and lets callers retry them", async () => {
+    let attempts = 0
+    const results: Lite.CloseResult[] = []
+    const ctx = createScope().createContext()
+    ctx.onClose((result) => { results.push(result) })
+    ctx.compensate((id: string) => {
+      if (++attempts === 1) throw new Error(`refund ${id} unavailable`)
+    }, "p1")
+
+    await ctx.close({ ok: false, error: new Error("checkout failed") })
+    const result = results[0]!
+    const failures = !result.ok ? result.compensationFailures ?? [] : []
+    expect(failures).toHaveLength(1)
+    expect((failures[0]!.error as Error).message).toBe("refund p1 unavailable")
+    expect(failures[0]!.compensation.params).toEqual(["p1"])
+    expect(failures[0]!.compensation.ctx).toBe(ctx)
+
+    await failures[0]!.retry()
+    expect(attempts).toBe(2)
+  })
+
+  it("exposes each compensation to extensions", async () => {
+    const events: string[] = []
+    const ext: Lite.Extension = {
+      name: "saga",
+      wrapCompensate: async (next, compensation, ctx) => {
+        events.push(`start:${compensation.ctx.name}@${ctx.name}`)
+        try {
+          await next()
+          events.push("done")
+        } catch (error) {
+          events.push(`failed:${(error as Error).message}`)
+          throw error
+        }
+      },
+      disposeContext: (ctx, result) => {
+        if (!result.ok) events.push(`dispose:${ctx.name ?? "root"}:${result.compensationFailures?.length ?? 0}`)
+      },
+    }
+    const debit = flow({
+      name: "debit",
+      parse: typed<number>(),
+      factory: (ctx) => {
+        ctx.compensate(() => { throw new Error("ledger locked") })
+        return ctx.input
+      },
+    })
+    const transfer = flow({
+      name: "transfer",
+      factory: async (ctx) => {
+        await ctx.exec({ flow: debit, input: 5 })
+        throw new Error("credit failed")
+      },
+    })
+
+    await expect(createScope({ extensions: [ext] }).run({ flow: transfer })).rejects.toThrow("credit failed")
+    expect(events).toEqual([
+      "start:debit@transfer",
+      "failed:ledger locked",
+      "dispose:transfer:1",
+      "dispose:root:0",
+    ])
+  })
+})
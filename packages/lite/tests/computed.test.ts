@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest"
+import { atom, computed, controller, createScope } from "../src/index"
+
+describe("computed", () => {
+  it("derives from every controller read and recomputes lazily", async () => {
+    const price = atom({ factory: () => 10 })
+    const quantity = atom({ factory: () => 2 })
+    const scope = createScope()
+    await Promise.all([scope.resolve(price), scope.resolve(quantity)])
+    const priceCtrl = scope.controller(price)
+    const quantityCtrl = scope.controller(quantity)
+
+    let runs = 0
+    const total = computed(() => {
+      runs++
+      return priceCtrl.get() * quantityCtrl.get()
+    })
+    expect(runs).toBe(0)
+    expect(total.get()).toBe(20)
+    expect(total.get()).toBe(20)
+    expect(runs).toBe(1)
+
+    quantityCtrl.set(3)
+    await scope.flush()
+    expect(runs).toBe(1)
+    expect(total.get()).toBe(30)
+    expect(runs).toBe(2)
+  })
+
+  it("notifies subscribers once per change and skips equal results", async () => {
+    const count = atom({ factory: () => 1 })
+    const scope = createScope()
+    const ctrl = await scope.controller(count, { resolve: true })
+
+    const parity = computed(() => ctrl.get() % 2 === 0 ? "even" : "odd")
+    const seen: string[] = []
+    const unsubscribe = parity.subscribe(() => seen.push(parity.get()))
+
+    ctrl.set(2)
+    await scope.flush()
+    ctrl.set(4)
+    await scope.flush()
+    ctrl.set(5)
+    await scope.flush()
+    expect(seen).toEqual(["even", "odd"])
+
+    unsubscribe()
+    ctrl.set(6)
+    await scope.flush()
+    expect(seen).toEqual(["even", "odd"])
+    expect(parity.get()).toBe("even")
+  })
+
+  it("recomputes a diamond once after the whole invalidation chain", async () => {
+    const base = atom({ factory: () => 1 })
+    const doubled = atom({
+      deps: { base: controller(base, { resolve: true, watch: true }) },
+      factory: (_, { base }) => base.get() * 2,
+    })
+    const tripled = atom({
+      deps: { base: controller(base, { resolve: true, watch: true }) },
+      factory: (_, { base }) => base.get() * 3,
+    })
+    const scope = createScope()
+    const baseCtrl = await scope.controller(base, { resolve: true })
+    const doubledCtrl = await scope.controller(doubled, { resolve: true })
+    const tripledCtrl = await scope.controller(tripled, { resolve: true })
+
+    let runs = 0
+    const sum = computed(() => {
+      runs++
+      return doubledCtrl.get() + tripledCtrl.get()
+    })
+    const seen: number[] = []
+    sum.subscribe(() => seen.push(sum.get()))
+    expect(runs).toBe(1)
+
+    baseCtrl.set(2)
+    await scope.flush()
+    await Promise.resolve()
+    expect(seen).toEqual([10])
+    expect(runs).toBe(2)
+    sum.dispose()
+  })
+
+  it("tracks dependencies dynamically across evaluations", async () => {
+    const useMetric = atom({ factory: () => true })
+    const metric = atom({ factory: () => "20°C" })
+    const imperial = atom({ factory: () => "68°F" })
+    const scope = createScope()
+    const flagCtrl = await scope.controller(useMetric, { resolve: true })
+    const metricCtrl = await scope.controller(metric, { resolve: true })
+    const imperialCtrl = await scope.controller(imperial, { resolve: true })
+
+    let runs = 0
+    const reading = computed(() => {
+      runs++
+      return flagCtrl.get() ? metricCtrl.get() : imperialCtrl.get()
+    })
+    reading.subscribe(() => {})
+    expect(runs).toBe(1)
+
+    imperialCtrl.set("70°F")
+    await scope.flush()
+    await Promise.resolve()
+    expect(runs).toBe(1)
+
+    flagCtrl.set(false)
+    await scope.flush()
+    await Promise.resolve()
+    expect(reading.get()).toBe("70°F")
+    expect(runs).toBe(2)
+
+    metricCtrl.set("21°C")
+    await scope.flush()
+    await Promise.resolve()
+    expect(runs).toBe(2)
+    reading.dispose()
+  })
+
+  it("shares results across nested computeds and surfaces read errors", async () => {
+    const name = atom({ factory: () => "ada" })
+    const scope = createScope()
+    const nameCtrl = scope.controller(name)
+
+    let upperRuns = 0
+    const upper = computed(() => {
+      upperRuns++
+      return nameCtrl.get().toUpperCase()
+    })
+    const greeting = computed(() => `hello ${upper.get()}`)
+    const badge = computed(() => `[${upper.get()}]`)
+
+    expect(() => greeting.get()).toThrow()
+    await scope.resolve(name)
+    expect(greeting.get()).toBe("hello ADA")
+    expect(badge.get()).toBe("[ADA]")
+    expect(upperRuns).toBe(2)
+
+    const seen: string[] = []
+    greeting.subscribe(() => seen.push(greeting.get()))
+    nameCtrl.set("bob")
+    await scope.flush()
+    await Promise.resolve()
+    expect(seen).toEqual(["hello BOB"])
+    expect(badge.get()).toBe("[BOB]")
+    expect(upperRuns).toBe(3)
+  })
+})
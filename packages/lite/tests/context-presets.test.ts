@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import { atom, createScope, flow, preset, resource, typed } from "../src/index"
+
+describe("context presets", () => {
+  const greet = flow({
+    name: "greet",
+    parse: typed<string>(),
+    factory: (ctx) => `hello ${ctx.input}`,
+  })
+  const handler = flow({
+    deps: { greet },
+    factory: (_ctx, { greet }) => greet.exec({ input: "ada" }),
+  })
+
+  it("replaces flows for a context and its children only", async () => {
+    const scope = createScope()
+    const stubbed = scope.createContext({ presets: [preset(greet, (ctx) => `stub ${ctx.input}`)] })
+    const child = scope.createContext({ parent: stubbed })
+    const plain = scope.createContext()
+
+    expect(await stubbed.exec({ flow: handler })).toBe("stub ada")
+    expect(await child.exec({ flow: greet, input: "bob" })).toBe("stub bob")
+    expect(await plain.exec({ flow: handler })).toBe("hello ada")
+
+    await Promise.all([child.close(), stubbed.close(), plain.close()])
+  })
+
+  it("applies exec presets to the executed flow and its subtree", async () => {
+    const loud = flow({ parse: typed<string>(), factory: (ctx) => ctx.input.toUpperCase() })
+    const scope = createScope({ presets: [preset(greet, () => "scope stub")] })
+    const ctx = scope.createContext()
+
+    expect(await ctx.exec({ flow: handler })).toBe("scope stub")
+    expect(await ctx.exec({ flow: handler, presets: [preset(greet, loud)] })).toBe("ADA")
+    expect(await ctx.exec({ flow: greet, input: "x", presets: [preset(greet, loud)] })).toBe("X")
+    expect(await scope.run({ flow: handler, presets: [preset(greet, loud)] })).toBe("ADA")
+    expect(await ctx.exec({ flow: handler })).toBe("scope stub")
+    await ctx.close()
+  })
+
+  it("resolves preset resources without leaking them to sibling executions", async () => {
+    const closed: string[] = []
+    const tx = resource({
+      name: "tx",
+      factory: (ctx) => {
+        ctx.cleanup(() => { closed.push("real") })
+        return "real"
+      },
+    })
+    const read = flow({ deps: { tx }, factory: (_ctx, { tx }) => tx })
+    const scope = createScope()
+    const ctx = scope.createContext()
+
+    expect(await ctx.exec({ flow: read, presets: [preset(tx, "fake")] })).toBe("fake")
+    expect(await ctx.exec({ flow: read })).toBe("real")
+    expect(await ctx.exec({ flow: read, presets: [preset(tx, () => "fresh")] })).toBe("fresh")
+
+    const tenant = scope.createContext({ presets: [preset(tx, "tenant")] })
+    expect(await tenant.exec({ flow: read })).toBe("tenant")
+    await tenant.close()
+    await ctx.close()
+    expect(closed).toEqual(["real"])
+  })
+
+  it("keeps atoms scope-level", async () => {
+    const config = atom({ name: "config", factory: () => "real" })
+    const scope = createScope()
+
+    expect(() => scope.createContext({ presets: [preset(config, "fake")] })).toThrow(
+      'createContext() cannot preset atom "config"; atom presets belong on createScope()',
+    )
+    expect(() => scope.createContext({ presets: [greet] as never })).toThrow(
+      "createContext() expects presets to be a list of preset() values",
+    )
+    await expect(scope.run({ flow: greet, input: "x", presets: [preset(config, "fake")] })).rejects.toThrow(
+      'exec() cannot preset atom "config"',
+    )
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope, flow, preset, resource, type Lite } from "../src/index"
+
+function link(target: { deps?: Record<string, unknown> }, deps: Record<string, unknown>): void {
+  Object.assign(target.deps!, deps)
+}
+
+function configCycle() {
+  let runs = 0
+  const config: Lite.Atom<string> = atom({
+    name: "config",
+    deps: { migrations: undefined as unknown as Lite.Atom<string> },
+    factory: async () => {
+      runs++
+      return "config"
+    },
+  })
+  const db = atom({ name: "db", deps: { config }, factory: () => "db" })
+  const migrations = atom({ name: "migrations", deps: { db }, factory: () => "migrations" })
+  link(config, { migrations })
+  return { config, db, migrations, runs: () => runs }
+}
+
+describe("dependency cycles", () => {
+  it("names the full atom path on first resolve", async () => {
+    const { db, runs } = configCycle()
+    const scope = createScope()
+    await expect(scope.resolve(db)).rejects.toThrow(
+      "Circular dependency detected: db -> config -> migrations -> db",
+    )
+    expect(runs()).toBe(0)
+  })
+
+  it("follows controller deps that resolve", async () => {
+    const left: Lite.Atom<string> = atom({ name: "left", deps: { right: undefined as unknown as Lite.Atom<string> }, factory: () => "left" })
+    const right = atom({ name: "right", deps: { left: controller(left, { resolve: true }) }, factory: () => "right" })
+    link(left, { right })
+
+    await expect(createScope().resolve(left)).rejects.toThrow("Circular dependency detected: left -> right -> left")
+  })
+
+  it("ignores controller deps that do not resolve", async () => {
+    const left: Lite.Atom<string> = atom({ name: "left", deps: { right: undefined as unknown as Lite.Atom<string> }, factory: () => "left" })
+    const right = atom({ name: "right", deps: { left: controller(left) }, factory: () => "right" })
+    link(left, { right })
+
+    expect(await createScope().resolve(left)).toBe("left")
+  })
+
+  it("reports cycles introduced by presets", async () => {
+    const base = atom({ name: "base", factory: () => 1 })
+    const wrapped = atom({ name: "wrapped", deps: { base }, factory: (_ctx, { base }) => base + 1 })
+    const scope = createScope({ presets: [preset(base, wrapped)] })
+
+    await expect(scope.resolve(base)).rejects.toThrow("Circular dependency detected: wrapped -> base -> wrapped")
+  })
+
+  it("stops at presets that replace a value", async () => {
+    const { db, config } = configCycle()
+    const scope = createScope({ presets: [preset(config, "fixed")] })
+    expect(await scope.resolve(db)).toBe("db")
+  })
+
+  it("names resource paths", async () => {
+    const first: Lite.Resource<string> = resource({ name: "first", deps: { second: undefined as unknown as Lite.Resource<string> }, factory: () => "first" })
+    const second = resource({ name: "second", deps: { first }, factory: () => "second" })
+    link(first, { second })
+    const uses = flow({ deps: { second }, factory: (_ctx, { second }) => second })
+
+    const ctx = createScope().createContext()
+    await expect(ctx.exec({ flow: uses })).rejects.toThrow(
+      "Circular resource dependency detected: second -> first -> second",
+    )
+    await ctx.close()
+  })
+
+  describe("validate", () => {
+    it("throws from createScope for cycles reachable from preset replacements", () => {
+      const { migrations } = configCycle()
+      const other = atom({ name: "other", deps: { migrations }, factory: () => "other" })
+      const seed = atom({ name: "seed", factory: () => "seed" })
+
+      expect(() => createScope({ presets: [preset(seed, other)], validate: true })).toThrow(
+        "Circular dependency detected: migrations -> db -> config -> migrations",
+      )
+    })
+
+    it("walks listed dependencies and flow deps", () => {
+      const { config } = configCycle()
+      const handler = flow({ name: "handler", deps: { config }, factory: () => "ok" })
+
+      expect(() => createScope({ validate: [handler] })).toThrow(
+        "Circular dependency detected: config -> migrations -> db -> config",
+      )
+      expect(() => createScope({ validate: [controller(config)] })).toThrow("Circular dependency detected")
+    })
+
+    it("accepts acyclic graphs", async () => {
+      const base = atom({ name: "base", factory: () => 1 })
+      const derived = atom({ name: "derived", deps: { base }, factory: (_ctx, { base }) => base + 1 })
+      const scope = createScope({ presets: [preset(base, 2)], validate: [derived] })
+      expect(await scope.resolve(derived)).toBe(3)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest"
+import { createScope, flow, resource, TimeoutError } from "../src/index"
+
+describe("execution deadlines", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(1_000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("aborts the context signal with a TimeoutError when the timeout expires", async () => {
+    const scope = createScope()
+    const ctx = scope.createContext({ timeout: 50 })
+
+    expect(ctx.deadline).toBe(1_050)
+    expect(ctx.remainingMs).toBe(50)
+    await vi.advanceTimersByTimeAsync(20)
+    expect(ctx.remainingMs).toBe(30)
+    expect(ctx.signal.aborted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(30)
+    expect(ctx.signal.aborted).toBe(true)
+    expect(ctx.signal.reason).toBeInstanceOf(TimeoutError)
+    expect((ctx.signal.reason as TimeoutError).deadline).toBe(1_050)
+    expect(ctx.remainingMs).toBe(0)
+    await ctx.close()
+  })
+
+  it("uses the earlier of timeout and deadline", () => {
+    const scope = createScope()
+    expect(scope.createContext({ timeout: 500, deadline: 1_200 }).deadline).toBe(1_200)
+    expect(scope.createContext({ timeout: 100, deadline: 1_200 }).deadline).toBe(1_100)
+  })
+
+  it("leaves contexts without a deadline unbounded", () => {
+    const ctx = createScope().createContext()
+    expect(ctx.deadline).toBeUndefined()
+    expect(ctx.remainingMs).toBeUndefined()
+  })
+
+  it("caps a child deadline at its parent's", async () => {
+    const seen: [number | undefined, number | undefined][] = []
+    const child = flow({
+      factory: (ctx) => {
+        seen.push([ctx.deadline, ctx.remainingMs])
+      },
+    })
+    const scope = createScope()
+    const ctx = scope.createContext({ deadline: 1_100 })
+
+    await ctx.exec({ flow: child, timeout: 500 })
+    await ctx.exec({ flow: child, timeout: 40 })
+    await ctx.exec({ flow: child })
+
+    expect(seen).toEqual([[1_100, 100], [1_040, 40], [1_100, 100]])
+    await ctx.close()
+  })
+
+  it("applies deadlines to inline executions", async () => {
+    const deadlines: (number | undefined)[] = []
+    const scope = createScope({
+      extensions: [{
+        name: "deadlines",
+        wrapExec: (next, _target, ctx) => {
+          deadlines.push(ctx.deadline)
+          return next()
+        },
+      }],
+    })
+    await scope.ready
+    const ctx = scope.createContext()
+
+    await ctx.exec({ name: "inline", params: [], fn: () => "ok", deadline: 1_010 })
+    await scope.run({ name: "run", params: [1], fn: (n: number) => n, timeout: 20 })
+
+    expect(deadlines).toEqual([1_010, 1_020])
+    await ctx.close()
+  })
+
+  it("propagates the parent's expiry to nested executions", async () => {
+    let nestedSignal!: AbortSignal
+    const nested = flow({
+      factory: (ctx) => new Promise<never>((_, reject) => {
+        nestedSignal = ctx.signal
+        ctx.signal.addEventListener("abort", () => reject(ctx.signal.reason), { once: true })
+      }),
+    })
+    const outer = flow({
+      deps: { nested },
+      factory: (_ctx, { nested }) => nested.exec(),
+    })
+    const scope = createScope()
+
+    const pending = scope.run({ flow: outer, timeout: 30 })
+    const settled = expect(pending).rejects.toBeInstanceOf(TimeoutError)
+    await vi.advanceTimersByTimeAsync(30)
+    await settled
+    expect(nestedSignal.reason).toBeInstanceOf(TimeoutError)
+  })
+
+  it("times out one child without aborting its parent", async () => {
+    const slow = flow({
+      name: "slow",
+      factory: (ctx) => new Promise<never>((_, reject) => {
+        ctx.signal.addEventListener("abort", () => reject(ctx.signal.reason), { once: true })
+      }),
+    })
+    const scope = createScope()
+    const ctx = scope.createContext()
+
+    const pending = ctx.exec({ flow: slow, timeout: 10 })
+    const settled = expect(pending).rejects.toThrow('execution "slow" exceeded its deadline')
+    await vi.advanceTimersByTimeAsync(10)
+    await settled
+    expect(ctx.signal.aborted).toBe(false)
+    await ctx.close()
+  })
+
+  it("aborts immediately when the deadline has already passed", () => {
+    const ctx = createScope().createContext({ deadline: 900 })
+    expect(ctx.signal.aborted).toBe(true)
+    expect(ctx.signal.reason).toBeInstanceOf(TimeoutError)
+    expect(ctx.remainingMs).toBe(0)
+  })
+
+  it("stops the timer when the context closes first", async () => {
+    const scope = createScope()
+    const ctx = scope.createContext({ timeout: 50 })
+    await ctx.close()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it("does not keep the process alive for a pending deadline", async () => {
+    vi.useRealTimers()
+    const keepAlive = () => process.getActiveResourcesInfo().filter((type) => type === "Timeout").length
+    const before = keepAlive()
+    const ctx = createScope().createContext({ timeout: 60_000 })
+    expect(ctx.remainingMs).toBeGreaterThan(0)
+    expect(keepAlive()).toBe(before)
+    await ctx.close()
+  })
+
+  it("exposes the deadline to resources", async () => {
+    let remaining: number | undefined
+    const budget = resource({
+      factory: (ctx) => {
+        remaining = ctx.remainingMs
+        return ctx.deadline
+      },
+    })
+    const scope = createScope()
+    const ctx = scope.createContext({ timeout: 75 })
+    expect(await ctx.resolve(budget)).toBe(1_075)
+    expect(remaining).toBe(75)
+    await ctx.close()
+  })
+
+  it("bounds streamed executions", async () => {
+    const ticks = flow({
+      factory: async function* (ctx) {
+        yield ctx.remainingMs
+        await new Promise<void>((_, reject) => {
+          ctx.signal.addEventListener("abort", () => reject(ctx.signal.reason), { once: true })
+        })
+      },
+    })
+    const scope = createScope()
+    const stream = scope.runStream({ flow: ticks, timeout: 25 })
+    const seen: unknown[] = []
+    const consumed = (async () => {
+      for await (const value of stream) seen.push(value)
+    })()
+    const settled = expect(consumed).rejects.toBeInstanceOf(TimeoutError)
+    await vi.advanceTimersByTimeAsync(25)
+    await settled
+    expect(seen).toEqual([25])
+
+    const ctx = scope.createContext({ deadline: 1_040 })
+    const child = ctx.execStream({ flow: ticks, timeout: 100 })
+    const childSeen: unknown[] = []
+    const childConsumed = (async () => {
+      for await (const value of child) childSeen.push(value)
+    })()
+    const childSettled = expect(childConsumed).rejects.toBeInstanceOf(TimeoutError)
+    await vi.advanceTimersByTimeAsync(15)
+    await childSettled
+    expect(childSeen).toEqual([15])
+    await ctx.close()
+  })
+
+  it("rejects non-finite and negative budgets", async () => {
+    const scope = createScope()
+    const step = flow({ factory: () => "ok" })
+    expect(() => scope.createContext({ timeout: "5" } as never)).toThrow("createContext() expects a finite numeric timeout")
+    expect(() => scope.createContext({ deadline: Number.NaN })).toThrow(TypeError)
+    expect(() => scope.createContext({ timeout: Infinity })).toThrow("createContext() expects a finite numeric timeout")
+    expect(() => scope.createContext({ timeout: -1 })).toThrow("createContext() expects a non-negative timeout")
+
+    const ctx = scope.createContext()
+    await expect(ctx.exec({ flow: step, timeout: Number.NaN })).rejects.toThrow("exec() expects a finite numeric timeout")
+    await expect(ctx.exec({ flow: step, timeout: -5 })).rejects.toBeInstanceOf(TypeError)
+    expect(() => ctx.execStream({ flow: step, deadline: Infinity })).toThrow("execStream() expects a finite numeric deadline")
+    await expect(scope.run({ flow: step, timeout: -1 })).rejects.toThrow("run() expects a non-negative timeout")
+    expect(() => scope.runStream({ flow: step, deadline: Number.NaN })).toThrow("runStream() expects a finite numeric deadline")
+    await ctx.close()
+  })
+})
@@ -0,0 +1,136 @@
+import { afterEach, describe, it, expect, vi } from "vitest"
+import { atom, atomFamily, createScope, isAtom, isAtomFamily, memoryStorage } from "../src/index"
+
+describe("atomFamily", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("returns a stable atom per key", async () => {
+    let runs = 0
+    const doc = atomFamily({
+      name: "doc",
+      factory: (_ctx, id: string) => ({ id, run: ++runs }),
+    })
+    const scope = createScope()
+
+    expect(isAtomFamily(doc)).toBe(true)
+    expect(doc.name).toBe("doc")
+    expect(doc("a")).toBe(doc("a"))
+    expect(doc("a")).not.toBe(doc("b"))
+    expect(isAtom(doc("a"))).toBe(true)
+    expect(doc("a").name).toBe("doc(a)")
+
+    expect(await scope.resolve(doc("a"))).toEqual({ id: "a", run: 1 })
+    expect(await scope.resolve(doc("a"))).toEqual({ id: "a", run: 1 })
+    expect(await scope.resolve(doc("b"))).toEqual({ id: "b", run: 2 })
+  })
+
+  it("derives keys from params and passes deps", async () => {
+    const config = atom({ factory: () => ({ prefix: "db" }) })
+    const pool = atomFamily({
+      key: (tenant: { id: string; region: string }) => `${tenant.region}/${tenant.id}`,
+      deps: { config },
+      factory: (_ctx, { config }, tenant) => `${config.prefix}:${tenant.region}:${tenant.id}`,
+    })
+
+    expect(pool({ id: "acme", region: "eu" })).toBe(pool({ id: "acme", region: "eu" }))
+    expect(await createScope().resolve(pool({ id: "acme", region: "eu" }))).toBe("db:eu:acme")
+  })
+
+  it("invalidates and cleans up each key on its own", async () => {
+    const closed: string[] = []
+    let runs = 0
+    const pool = atomFamily({
+      factory: (ctx, tenant: string) => {
+        ctx.cleanup(() => { closed.push(tenant) })
+        return `${tenant}#${++runs}`
+      },
+    })
+    const scope = createScope()
+    await scope.resolve(pool("a"))
+    await scope.resolve(pool("b"))
+
+    scope.controller(pool("a")).invalidate()
+    await scope.flush()
+    expect(closed).toEqual(["a"])
+    expect(scope.controller(pool("a")).get()).toBe("a#3")
+    expect(scope.controller(pool("b")).get()).toBe("b#2")
+
+    await scope.release(pool("b"))
+    expect(closed).toEqual(["a", "b"])
+    expect(scope.controller(pool("a")).state).toBe("resolved")
+  })
+
+  it("lists live keys per scope", async () => {
+    const doc = atomFamily({ factory: (_ctx, id: number) => id })
+    const first = createScope()
+    const second = createScope()
+
+    await first.resolve(doc(1))
+    await first.resolve(doc(2))
+    await second.resolve(doc(3))
+    expect(doc.keys(first)).toEqual(["1", "2"])
+    expect(doc.keys(second)).toEqual(["3"])
+
+    await first.release(doc(1))
+    expect(doc.keys(first)).toEqual(["2"])
+  })
+
+  it("applies eq, persist, and serializable to every member", async () => {
+    const storage = memoryStorage({ "prefs(b)": JSON.stringify({ version: 0, value: { theme: "dark" } }) })
+    const prefs = atomFamily({
+      name: "prefs",
+      serializable: true,
+      factory: (_ctx, _user: string) => ({ theme: "light" }),
+      eq: (prev, next) => prev.theme === next.theme,
+      persist: { storage },
+    })
+    const scope = createScope()
+
+    expect(prefs("a").serializable).toBe(true)
+    expect(await scope.resolve(prefs("a"))).toEqual({ theme: "light" })
+    expect(await scope.resolve(prefs("b"))).toEqual({ theme: "dark" })
+
+    const notified: string[] = []
+    scope.controller(prefs("a")).on("resolved", () => { notified.push("a") })
+    scope.controller(prefs("a")).set({ theme: "light" })
+    await scope.flush()
+    expect(notified).toEqual([])
+
+    scope.controller(prefs("a")).set({ theme: "dark" })
+    await scope.flush()
+    expect(notified).toEqual(["a"])
+    expect(storage.getItem("prefs(a)")).toBe('{"version":0,"value":{"theme":"dark"}}')
+  })
+
+  it("requires a name for serializable or persisted families", () => {
+    expect(() => atomFamily({ serializable: true, factory: (_ctx, id: string) => id })).toThrow("Serializable atom families require a name")
+    expect(() => atomFamily({ persist: { storage: memoryStorage() }, factory: (_ctx, id: string) => id }))
+      .toThrow("Persisted atom families require a name or persist.key")
+  })
+
+  it("collects each key after the scope's grace period", async () => {
+    vi.useFakeTimers()
+    const closed: string[] = []
+    const doc = atomFamily({
+      factory: (ctx, id: string) => {
+        ctx.cleanup(() => { closed.push(id) })
+        return id
+      },
+    })
+    const pinned = atomFamily({ keepAlive: true, factory: (_ctx, id: string) => id })
+    const scope = createScope({ gc: { graceMs: 100 } })
+
+    for (const target of [doc("a"), doc("b"), pinned("c")]) {
+      const ctrl = scope.controller(target)
+      await ctrl.resolve()
+      ctrl.on("resolved", () => {})()
+    }
+    await vi.advanceTimersByTimeAsync(150)
+
+    expect(closed.sort()).toEqual(["a", "b"])
+    expect(doc.keys(scope)).toEqual([])
+    expect(pinned.keys(scope)).toEqual(["c"])
+  })
+})
@@ -0,0 +1,227 @@
+import { afterEach, describe, it, expect, vi } from "vitest"
+import { setFlagsFromString } from "node:v8"
+import { runInNewContext } from "node:vm"
+import { createScope, flow, preset, tag, TimeoutError, typed } from "../src/index"
+
+function counted(owner?: "scope" | "context", ttlMs?: number) {
+  const calls: string[] = []
+  const lookup = flow({
+    name: "lookup",
+    parse: typed<{ id: string }>(),
+    cache: { key: (input) => input.id, owner, ttlMs },
+    factory: async (ctx) => {
+      calls.push(ctx.input.id)
+      await Promise.resolve()
+      return `user:${ctx.input.id}`
+    },
+  })
+  return { lookup, calls }
+}
+
+describe("flow cache", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("shares one in-flight run per key and reuses the settled result", async () => {
+    const { lookup, calls } = counted()
+    const ctx = createScope().createContext()
+
+    const [a, b, c] = await Promise.all([
+      ctx.exec({ flow: lookup, input: { id: "1" } }),
+      ctx.exec({ flow: lookup, input: { id: "1" } }),
+      ctx.exec({ flow: lookup, input: { id: "2" } }),
+    ])
+    expect([a, b, c]).toEqual(["user:1", "user:1", "user:2"])
+    expect(await ctx.exec({ flow: lookup, input: { id: "1" } })).toBe("user:1")
+    expect(calls).toEqual(["1", "2"])
+    await ctx.close()
+  })
+
+  it("derives the key from parsed input", async () => {
+    let runs = 0
+    const normalized = flow({
+      parse: (raw) => String(raw).trim().toLowerCase(),
+      cache: { key: (input) => input },
+      factory: (ctx) => {
+        runs++
+        return ctx.input
+      },
+    })
+    const ctx = createScope().createContext()
+
+    expect(await ctx.exec({ flow: normalized, rawInput: " Ada " })).toBe("ada")
+    expect(await ctx.exec({ flow: normalized, rawInput: "ADA" })).toBe("ada")
+    expect(runs).toBe(1)
+    await ctx.close()
+  })
+
+  it("keeps context-owned entries on the nearest boundary until it closes", async () => {
+    const { lookup, calls } = counted()
+    const scope = createScope()
+    const handler = flow({
+      factory: async (ctx) => {
+        await ctx.exec({ flow: lookup, input: { id: "1" } })
+        return ctx.flowCache(lookup).has("1")
+      },
+    })
+    const ctx = scope.createContext()
+
+    expect(await ctx.exec({ flow: handler })).toBe(true)
+    await ctx.exec({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1"])
+    expect(ctx.flowCache(lookup).has("1")).toBe(true)
+    await ctx.close()
+    expect(ctx.flowCache(lookup).has("1")).toBe(false)
+
+    const next = scope.createContext()
+    await next.exec({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1", "1"])
+    await next.close()
+  })
+
+  it("shares scope-owned entries across contexts until invalidated", async () => {
+    const { lookup, calls } = counted("scope")
+    const scope = createScope()
+
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    await scope.run({ flow: lookup, input: { id: "2" } })
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1", "2"])
+
+    const handle = scope.flowCache(lookup)
+    handle.invalidate("1")
+    expect(handle.has("1")).toBe(false)
+    expect(handle.has("2")).toBe(true)
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1", "2", "1"])
+
+    const ctx = scope.createContext()
+    ctx.flowCache(lookup).invalidate()
+    expect(handle.has("1")).toBe(false)
+    expect(handle.has("2")).toBe(false)
+    await ctx.close()
+  })
+
+  it("runs scope-owned entries apart from the callers that share them", async () => {
+    const requestId = tag<string>({ label: "requestId" })
+    const seen: { requestId: string | undefined; aborted: boolean }[] = []
+    let release!: () => void
+    const gate = new Promise<void>((resolve) => { release = resolve })
+    const lookup = flow({
+      parse: typed<string>(),
+      cache: { key: (input) => input, owner: "scope" },
+      factory: async (ctx) => {
+        await gate
+        seen.push({ requestId: ctx.data.seekTag(requestId), aborted: ctx.signal.aborted })
+        return `user:${ctx.input}`
+      },
+    })
+    const scope = createScope()
+    const controller = new AbortController()
+    const a = scope.createContext({ tags: [requestId("a")], signal: controller.signal })
+    const b = scope.createContext({ tags: [requestId("b")] })
+
+    const first = a.exec({ flow: lookup, input: "1" })
+    const second = b.exec({ flow: lookup, input: "1" })
+    controller.abort(new Error("request A cancelled"))
+    await expect(first).rejects.toThrow("request A cancelled")
+    release()
+    expect(await second).toBe("user:1")
+    expect(seen).toEqual([{ requestId: undefined, aborted: false }])
+    await a.close()
+    await b.close()
+  })
+
+  it("bounds each caller's wait on a shared run by its own timeout", async () => {
+    vi.useFakeTimers()
+    const lookup = flow({
+      parse: typed<string>(),
+      cache: { key: (input) => input, owner: "scope" },
+      factory: async (ctx) => {
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        return `user:${ctx.input}`
+      },
+    })
+    const scope = createScope()
+
+    const hurried = scope.run({ flow: lookup, input: "1", timeout: 10 })
+    const patient = scope.run({ flow: lookup, input: "1" })
+    const settled = expect(hurried).rejects.toBeInstanceOf(TimeoutError)
+    await vi.advanceTimersByTimeAsync(10)
+    await settled
+    await vi.advanceTimersByTimeAsync(90)
+    expect(await patient).toBe("user:1")
+  })
+
+  it("expires settled entries after ttlMs", async () => {
+    vi.useFakeTimers()
+    const { lookup, calls } = counted("scope", 1_000)
+    const scope = createScope()
+
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    vi.advanceTimersByTime(999)
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1"])
+
+    vi.advanceTimersByTime(1)
+    expect(scope.flowCache(lookup).has("1")).toBe(false)
+    await scope.run({ flow: lookup, input: { id: "1" } })
+    expect(calls).toEqual(["1", "1"])
+  })
+
+  it("drops expired entries that are never looked up again", async () => {
+    setFlagsFromString("--expose-gc")
+    const collect = runInNewContext("gc") as () => void
+    const lookup = flow({
+      parse: typed<string>(),
+      cache: { key: (input) => input, owner: "scope", ttlMs: 1 },
+      factory: (ctx) => ({ id: ctx.input }),
+    })
+    const scope = createScope()
+    const cached = new WeakRef(await scope.run({ flow: lookup, input: "1" }))
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    collect()
+    expect(cached.deref()).toBeUndefined()
+  })
+
+  it("does not cache failures", async () => {
+    let runs = 0
+    const flaky = flow({
+      parse: typed<string>(),
+      cache: { key: (input) => input, owner: "scope" },
+      factory: async () => {
+        runs++
+        await Promise.resolve()
+        if (runs === 1) throw new Error("down")
+        return "up"
+      },
+    })
+    const scope = createScope()
+
+    const results = await Promise.allSettled([
+      scope.run({ flow: flaky, input: "a" }),
+      scope.run({ flow: flaky, input: "a" }),
+    ])
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"])
+    expect(scope.flowCache(flaky).has("a")).toBe(false)
+    expect(await scope.run({ flow: flaky, input: "a" })).toBe("up")
+    expect(runs).toBe(2)
+  })
+
+  it("caches results of flow presets under the original flow", async () => {
+    const { lookup } = counted("scope")
+    let runs = 0
+    const scope = createScope({
+      presets: [preset(lookup, () => {
+        runs++
+        return "stub"
+      })],
+    })
+
+    expect(await scope.run({ flow: lookup, input: { id: "1" } })).toBe("stub")
+    expect(await scope.run({ flow: lookup, input: { id: "1" } })).toBe("stub")
+    expect(runs).toBe(1)
+  })
+})
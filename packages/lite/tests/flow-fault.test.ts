@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { createScope, flow, isFault, typed, FlowFault } from "../src/index"
+import { controller, createScope, flow, isFault, preset, typed, FlowFault, type Lite } from "../src/index"
 
 type Fault =
   | { kind: "conflict"; id: string }
@@ -81,3 +81,173 @@ describe("typed faults", () => {
     })
   })
 })
+
+describe("tryExec", () => {
+  const lookup = flow({
+    name: "lookup",
+    parse: typed<string>(),
+    faults: typed<Fault>(),
+    factory: (ctx) => {
+      if (ctx.input === "taken") return ctx.fail({ kind: "conflict", id: ctx.input })
+      if (ctx.input === "crash") throw new Error("db down")
+      return ctx.input.toUpperCase()
+    },
+  })
+
+  function describeResult(result: Lite.ExecResult<string, Fault>): string {
+    if (result.ok) return `ok:${result.value}`
+    if ("fault" in result) {
+      switch (result.fault.kind) {
+        case "conflict": return `409:${result.fault.id}`
+        case "not-found": return `404:${result.fault.id}`
+      }
+    }
+    return `500:${(result.error as Error).message}`
+  }
+
+  it("returns values, declared faults, and unexpected errors without throwing", async () => {
+    const scope = createScope()
+    const ctx = scope.createContext()
+
+    expect(describeResult(await ctx.tryExec({ flow: lookup, input: "a" }))).toBe("ok:A")
+    expect(describeResult(await ctx.tryExec({ flow: lookup, input: "taken" }))).toBe("409:taken")
+    expect(describeResult(await ctx.tryExec({ flow: lookup, input: "crash" }))).toBe("500:db down")
+    expect(describeResult(await scope.tryRun({ flow: lookup, input: "taken" }))).toBe("409:taken")
+    await ctx.close()
+  })
+
+  it("reports nested faults as errors even when flow names collide", async () => {
+    const inner = flow({
+      name: "caller",
+      faults: typed<Fault>(),
+      factory: (ctx) => ctx.fail({ kind: "not-found", id: "x" }),
+    })
+    const caller = flow({
+      name: "caller",
+      deps: { inner },
+      faults: typed<Fault>(),
+      factory: (_ctx, { inner }) => inner.exec(),
+    })
+    const ctx = createScope().createContext()
+
+    const result = await ctx.tryExec({ flow: caller })
+    expect("error" in result).toBe(true)
+    if ("error" in result) {
+      expect(result.error).toBeInstanceOf(FlowFault)
+      expect(isFault(caller, result.error)).toBe(true)
+      expect((result.error as FlowFault).origin).toBe(inner)
+    }
+    await ctx.close()
+  })
+
+  it("follows flow presets and flow handles", async () => {
+    const replacement = flow({
+      name: "replacement",
+      parse: typed<string>(),
+      faults: typed<Fault>(),
+      factory: (ctx) => ctx.fail({ kind: "not-found", id: ctx.input }),
+    })
+    const handler = flow({
+      deps: { lookup },
+      factory: (_ctx, { lookup }) => lookup.tryExec({ input: "taken" }),
+    })
+    const scope = createScope({ presets: [preset(lookup, replacement)] })
+
+    expect(await scope.tryRun({ flow: lookup, input: "gone" })).toEqual({ ok: false, fault: { kind: "not-found", id: "gone" } })
+    expect(await createScope().run({ flow: handler })).toEqual({ ok: false, fault: { kind: "conflict", id: "taken" } })
+  })
+})
+
+describe("mapFaults", () => {
+  type CheckoutFault = { kind: "out-of-stock"; sku: string } | { kind: "unavailable" }
+
+  const reserve = flow({
+    name: "reserve",
+    parse: typed<string>(),
+    faults: typed<Fault>(),
+    factory: (ctx) => {
+      if (ctx.input === "crash") throw new Error("db down")
+      return ctx.input === "gone" ? ctx.fail({ kind: "not-found", id: ctx.input }) : ctx.fail({ kind: "conflict", id: ctx.input })
+    },
+  })
+
+  it("translates child faults into the parent's faults", async () => {
+    const checkout = flow({
+      name: "checkout",
+      parse: typed<string>(),
+      faults: typed<CheckoutFault>(),
+      deps: {
+        reserve: controller(reserve, {
+          mapFaults: (fault) => fault.kind === "conflict" ? { kind: "out-of-stock" as const, sku: fault.id } : { kind: "unavailable" as const },
+        }),
+      },
+      factory: (ctx, { reserve }) => reserve.exec({ input: ctx.input }),
+    })
+    const scope = createScope()
+
+    expect(await scope.tryRun({ flow: checkout, input: "lamp" })).toEqual({ ok: false, fault: { kind: "out-of-stock", sku: "lamp" } })
+    const error = await scope.run({ flow: checkout, input: "gone" }).catch((e: unknown) => e)
+    expect(isFault(checkout, error) && error.fault).toEqual({ kind: "unavailable" })
+    expect((error as FlowFault).origin).toBe(checkout)
+
+    const crashed = await scope.tryRun({ flow: checkout, input: "crash" })
+    expect(!crashed.ok && "error" in crashed && (crashed.error as Error).message).toBe("db down")
+  })
+
+  it("maps handle tryExec and prepared executions", async () => {
+    const checkout = flow({
+      name: "checkout",
+      faults: typed<CheckoutFault>(),
+      deps: {
+        reserve: controller(reserve, { mapFaults: () => ({ kind: "unavailable" as const }) }),
+      },
+      factory: async (_ctx, { reserve }) => {
+        const tried = await reserve.tryExec({ input: "lamp" })
+        const prepared = await reserve.prepare({ input: "lamp" }).exec().catch((e: unknown) => e)
+        return { tried, prepared: (prepared as FlowFault).fault }
+      },
+    })
+
+    expect(await createScope().run({ flow: checkout })).toEqual({
+      tried: { ok: false, fault: { kind: "unavailable" } },
+      prepared: { kind: "unavailable" },
+    })
+  })
+
+  it("rejects unmapped faults with a FlowFault naming both flows", async () => {
+    const table = { conflict: { kind: "unavailable" } } as Record<Fault["kind"], CheckoutFault>
+    const checkout = flow({
+      name: "checkout",
+      faults: typed<CheckoutFault>(),
+      deps: {
+        reserve: controller(reserve, { mapFaults: (fault) => table[fault.kind] }),
+      },
+      factory: (_ctx, { reserve }) => reserve.exec({ input: "gone" }),
+    })
+
+    const result = await createScope().tryRun({ flow: checkout })
+    expect(result.ok).toBe(false)
+    const error = (result as { error: FlowFault }).error
+    expect(error).toBeInstanceOf(FlowFault)
+    expect(error.message).toBe('flow "checkout" has no mapping for a fault of flow "reserve": {"kind":"not-found","id":"gone"}')
+    expect(error.from).toBe("reserve")
+    expect(error.fault).toEqual({ kind: "not-found", id: "gone" })
+    expect(error.origin).toBeUndefined()
+  })
+
+  it("passes faults of child deps without mapFaults through as errors", async () => {
+    const checkout = flow({
+      name: "checkout",
+      faults: typed<CheckoutFault>(),
+      deps: { reserve },
+      factory: (_ctx, { reserve }) => reserve.exec({ input: "gone" }),
+    })
+
+    const result = await createScope().tryRun({ flow: checkout })
+    expect(result.ok).toBe(false)
+    const error = (result as { error: FlowFault }).error
+    expect(error).toBeInstanceOf(FlowFault)
+    expect(error.fault).toEqual({ kind: "not-found", id: "gone" })
+    expect(error.flow).toBe("reserve")
+  })
+})
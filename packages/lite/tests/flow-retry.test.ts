@@ -0,0 +1,294 @@
+import { afterEach, describe, it, expect, vi } from "vitest"
+import { createScope, flow, isFault, typed, ParseError, type Lite } from "../src/index"
+
+const immediate: Lite.RetryPolicy = { delayMs: 0, jitter: 0 }
+
+describe("flow retry", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("re-runs a failing factory until it succeeds", async () => {
+    const seen: (number | undefined)[] = []
+    const flaky = flow({
+      name: "flaky",
+      retry: { ...immediate, attempts: 3 },
+      factory: (ctx) => {
+        seen.push(ctx.attempt)
+        if (ctx.attempt! < 3) throw new Error(`attempt ${ctx.attempt}`)
+        return "ok"
+      },
+    })
+
+    const scope = createScope()
+    expect(await scope.createContext().exec({ flow: flaky })).toBe("ok")
+    expect(seen).toEqual([1, 2, 3])
+  })
+
+  it("rejects with the last error once attempts are exhausted", async () => {
+    let runs = 0
+    const broken = flow({
+      retry: { ...immediate, attempts: 2 },
+      factory: () => {
+        runs++
+        throw new Error(`run ${runs}`)
+      },
+    })
+
+    const scope = createScope()
+    await expect(scope.run({ flow: broken })).rejects.toThrow("run 2")
+    expect(runs).toBe(2)
+  })
+
+  it("leaves flows without a policy on a single attempt", async () => {
+    const seen: (number | undefined)[] = []
+    const plain = flow({
+      factory: (ctx) => {
+        seen.push(ctx.attempt)
+        throw new Error("once")
+      },
+    })
+
+    const scope = createScope()
+    await expect(scope.createContext().exec({ flow: plain })).rejects.toThrow("once")
+    expect(seen).toEqual([undefined])
+  })
+
+  it("lets the predicate skip declared faults", async () => {
+    let runs = 0
+    const pay = flow({
+      name: "pay",
+      faults: typed<{ kind: "declined" } | { kind: "unavailable" }>(),
+      factory: (ctx) => {
+        runs++
+        return ctx.fail(runs < 2 ? { kind: "unavailable" } : { kind: "declined" })
+      },
+    })
+    const retry: Lite.RetryPolicy = {
+      ...immediate,
+      attempts: 5,
+      shouldRetry: (error) => !isFault(pay, error) || error.fault.kind !== "declined",
+    }
+
+    const scope = createScope()
+    await expect(scope.createContext().exec({ flow: pay, retry })).rejects.toMatchObject({ fault: { kind: "declined" } })
+    expect(runs).toBe(2)
+  })
+
+  it("lets a call override or disable the flow policy", async () => {
+    let runs = 0
+    const broken = flow({
+      retry: { ...immediate, attempts: 4 },
+      factory: () => {
+        runs++
+        throw new Error("broken")
+      },
+    })
+
+    const ctx = createScope().createContext()
+    await expect(ctx.exec({ flow: broken, retry: false })).rejects.toThrow("broken")
+    expect(runs).toBe(1)
+
+    runs = 0
+    await expect(ctx.exec({ flow: broken, retry: { ...immediate, attempts: 2 } })).rejects.toThrow("broken")
+    expect(runs).toBe(2)
+
+    runs = 0
+    const plain = flow({
+      factory: () => {
+        runs++
+        throw new Error("plain")
+      },
+    })
+    await expect(ctx.exec({ flow: plain, retry: { ...immediate, attempts: 3 } })).rejects.toThrow("plain")
+    expect(runs).toBe(3)
+  })
+
+  it("closes each attempt's child context with its outcome", async () => {
+    const closes: [number | undefined, boolean][] = []
+    const flaky = flow({
+      retry: { ...immediate, attempts: 3 },
+      factory: (ctx) => {
+        ctx.onClose((result) => { closes.push([ctx.attempt, result.ok]) })
+        if (ctx.attempt === 1) throw new Error("first")
+        return ctx.attempt
+      },
+    })
+
+    const scope = createScope()
+    expect(await scope.createContext().exec({ flow: flaky })).toBe(2)
+    expect(closes).toEqual([[1, false], [2, true]])
+  })
+
+  it("parses input once and reuses it for every attempt", async () => {
+    let parses = 0
+    let runs = 0
+    const flaky = flow({
+      retry: { ...immediate, attempts: 2 },
+      parse: (raw) => {
+        parses++
+        return String(raw).toUpperCase()
+      },
+      factory: (ctx) => {
+        runs++
+        if (runs === 1) throw new Error("first")
+        return ctx.input
+      },
+    })
+
+    const scope = createScope()
+    expect(await scope.createContext().exec({ flow: flaky, rawInput: "abc" })).toBe("ABC")
+    expect(parses).toBe(1)
+  })
+
+  it("does not retry input parse failures", async () => {
+    let runs = 0
+    const strict = flow({
+      retry: { ...immediate, attempts: 3 },
+      parse: () => {
+        throw new Error("bad input")
+      },
+      factory: () => {
+        runs++
+      },
+    })
+
+    const scope = createScope()
+    await expect(scope.createContext().exec({ flow: strict, rawInput: 1 })).rejects.toBeInstanceOf(ParseError)
+    expect(runs).toBe(0)
+  })
+
+  it("reports every attempt through wrapExec", async () => {
+    const attempts: (number | undefined)[] = []
+    const ext: Lite.Extension = {
+      name: "attempts",
+      wrapExec: async (next, _target, ctx) => {
+        attempts.push(ctx.attempt)
+        return next()
+      },
+    }
+    const flaky = flow({
+      retry: { ...immediate, attempts: 3 },
+      factory: (ctx) => {
+        if (ctx.attempt! < 3) throw new Error("again")
+        return "done"
+      },
+    })
+
+    const scope = createScope({ extensions: [ext] })
+    await scope.ready
+    expect(await scope.run({ flow: flaky })).toBe("done")
+    expect(attempts).toEqual([1, 2, 3])
+  })
+
+  it("waits with exponential backoff between attempts", async () => {
+    vi.useFakeTimers()
+    const startedAt: number[] = []
+    const flaky = flow({
+      retry: { attempts: 3, delayMs: 100, factor: 3, jitter: 0 },
+      factory: (ctx) => {
+        startedAt.push(Date.now())
+        if (ctx.attempt! < 3) throw new Error("again")
+        return "done"
+      },
+    })
+
+    const scope = createScope()
+    const pending = scope.createContext().exec({ flow: flaky })
+    await vi.advanceTimersByTimeAsync(400)
+    expect(await pending).toBe("done")
+    expect(startedAt.map((at) => at - startedAt[0]!)).toEqual([0, 100, 400])
+  })
+
+  it("keeps jittered delays between the reduced and the capped delay", async () => {
+    vi.useFakeTimers()
+    let runs = 0
+    const flaky = flow({
+      retry: { attempts: 2, delayMs: 1000, maxDelayMs: 100, jitter: 0.4 },
+      factory: () => {
+        runs++
+        if (runs === 1) throw new Error("again")
+        return "done"
+      },
+    })
+
+    const scope = createScope()
+    const pending = scope.createContext().exec({ flow: flaky })
+    await vi.advanceTimersByTimeAsync(59)
+    expect(runs).toBe(1)
+    await vi.advanceTimersByTimeAsync(41)
+    expect(runs).toBe(2)
+    expect(await pending).toBe("done")
+  })
+
+  it("stops waiting when the caller's signal aborts", async () => {
+    vi.useFakeTimers()
+    let runs = 0
+    const broken = flow({
+      retry: { attempts: 5, delayMs: 1000, jitter: 0 },
+      factory: () => {
+        runs++
+        throw new Error("broken")
+      },
+    })
+
+    const controller = new AbortController()
+    const scope = createScope()
+    const pending = scope.createContext().exec({ flow: broken, signal: controller.signal })
+    const settled = expect(pending).rejects.toBe("cancelled")
+    await vi.advanceTimersByTimeAsync(10)
+    controller.abort("cancelled")
+    await settled
+    expect(runs).toBe(1)
+  })
+
+  it("does not start another attempt after the context aborts", async () => {
+    const controller = new AbortController()
+    let runs = 0
+    const broken = flow({
+      retry: { ...immediate, attempts: 5 },
+      factory: () => {
+        runs++
+        controller.abort("stop")
+        throw new Error("broken")
+      },
+    })
+
+    const scope = createScope()
+    const ctx = scope.createContext({ signal: controller.signal })
+    await expect(ctx.exec({ flow: broken })).rejects.toThrow("broken")
+    expect(runs).toBe(1)
+  })
+
+  it("surfaces predicate failures instead of retrying", async () => {
+    const broken = flow({
+      retry: {
+        ...immediate,
+        shouldRetry: () => {
+          throw new Error("predicate")
+        },
+      },
+      factory: () => {
+        throw new Error("broken")
+      },
+    })
+
+    await expect(createScope().run({ flow: broken })).rejects.toThrow("predicate")
+  })
+
+  it("runs streaming flows once", async () => {
+    let runs = 0
+    const stream = flow({
+      retry: { ...immediate, attempts: 3 },
+      factory: async function* (ctx) {
+        runs++
+        expect(ctx.attempt).toBeUndefined()
+        yield 1
+        throw new Error("stream")
+      },
+    })
+
+    await expect(createScope().run({ flow: stream })).rejects.toThrow("stream")
+    expect(runs).toBe(1)
+  })
+})
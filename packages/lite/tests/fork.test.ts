@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope, flow, preset, tag, tags, type Lite } from "../src/index"
+
+describe("scope.fork", () => {
+  const tenant = tag<string>({ label: "tenant", default: "shared" })
+
+  function graph() {
+    const runs: string[] = []
+    const closed: string[] = []
+    let connections = 0
+    const http = atom({
+      name: "http",
+      factory: (ctx) => {
+        runs.push("http")
+        ctx.cleanup(() => { closed.push("http") })
+        return { id: ++connections }
+      },
+    })
+    const db = atom({
+      name: "db",
+      deps: { tenant: tags.required(tenant) },
+      factory: (ctx, { tenant }) => {
+        runs.push(`db:${tenant}`)
+        ctx.cleanup(() => { closed.push(`db:${tenant}`) })
+        return `db:${tenant}`
+      },
+    })
+    const repo = atom({
+      name: "repo",
+      deps: { http, db },
+      factory: (_ctx, { http, db }) => ({ http, db }),
+    })
+    return { http, db, repo, runs, closed }
+  }
+
+  it("reads shared atoms through to the parent", async () => {
+    const { http, runs } = graph()
+    const parent = createScope()
+    const child = parent.fork({ tags: tenant("acme") })
+
+    const fromChild = await child.resolve(http)
+    expect(await parent.resolve(http)).toBe(fromChild)
+    expect(child.controller(http)).toBe(parent.controller(http))
+    expect(runs).toEqual(["http"])
+  })
+
+  it("keeps its own entries for atoms that request an overridden tag", async () => {
+    const { http, db, repo, runs } = graph()
+    const parent = createScope()
+    const acme = parent.fork({ tags: tenant("acme") })
+    const globex = parent.fork({ tags: tenant("globex") })
+
+    const [parentRepo, acmeRepo, globexRepo] = await Promise.all([
+      parent.resolve(repo),
+      acme.resolve(repo),
+      globex.resolve(repo),
+    ])
+    expect(parentRepo.db).toBe("db:shared")
+    expect(acmeRepo.db).toBe("db:acme")
+    expect(globexRepo.db).toBe("db:globex")
+    expect(acmeRepo.http).toBe(parentRepo.http)
+    expect(globexRepo.http).toBe(parentRepo.http)
+    expect(runs.filter((run) => run === "http")).toEqual(["http"])
+    expect(acme.controller(db)).not.toBe(parent.controller(db))
+    expect(acme.tags.map((tagged) => tagged.value)).toEqual(["acme"])
+    await expect(acme.resolve(http)).resolves.toBe(parentRepo.http)
+  })
+
+  it("diverges on presets and their dependents", async () => {
+    const { http, repo } = graph()
+    const parent = createScope()
+    const child = parent.fork({ presets: [preset(http, { id: 99 })] })
+
+    expect((await child.resolve(repo)).http).toEqual({ id: 99 })
+    expect((await parent.resolve(repo)).http).toEqual({ id: 1 })
+  })
+
+  it("shares invalidation of shared atoms with watching fork atoms", async () => {
+    const counter = atom({ factory: () => 0 })
+    const label = atom({
+      deps: { counter: controller(counter, { resolve: true, watch: true }), tenant: tags.required(tenant) },
+      factory: (_ctx, { counter, tenant }) => `${tenant}:${counter.get()}`,
+    })
+    const parent = createScope()
+    const child = parent.fork({ tags: tenant("acme") })
+
+    expect(await child.resolve(label)).toBe("acme:0")
+    parent.controller(counter).set(2)
+    await child.flush()
+    await parent.flush()
+    expect(child.controller(label).get()).toBe("acme:2")
+  })
+
+  it("releases fork dependents before the shared atom they use", async () => {
+    const events: string[] = []
+    let opened = 0
+    const client = atom({
+      name: "client",
+      factory: (ctx) => {
+        const conn = { id: ++opened, open: true }
+        ctx.cleanup(() => {
+          conn.open = false
+          events.push(`close client ${conn.id}`)
+        })
+        return conn
+      },
+    })
+    const repo = atom({
+      name: "repo",
+      deps: { client, tenant: tags.required(tenant) },
+      factory: (ctx, { client, tenant }) => {
+        ctx.cleanup(() => { events.push(`close repo ${client.id}:${client.open ? "open" : "closed"}`) })
+        return { client, tenant }
+      },
+    })
+    const parent = createScope({ gc: { graceMs: 0 } })
+    const child = parent.fork({ tags: tenant("acme") })
+
+    expect((await child.resolve(repo)).client.id).toBe(1)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(parent.controller(client).state).toBe("resolved")
+
+    await parent.release(client)
+    expect(events).toEqual(["close repo 1:open", "close client 1"])
+    const next = await child.resolve(repo)
+    expect(next.client).toEqual({ id: 2, open: true })
+
+    await child.release(repo)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(parent.controller(client).state).toBe("idle")
+  })
+
+  it("disposes only what it owns", async () => {
+    const { repo, closed } = graph()
+    const parent = createScope()
+    const child = parent.fork({ tags: tenant("acme") })
+    await parent.resolve(repo)
+    await child.resolve(repo)
+
+    await child.dispose()
+    expect(closed).toEqual(["db:acme"])
+    expect(parent.controller(repo).state).toBe("resolved")
+
+    const other = parent.fork({ tags: tenant("globex") })
+    await other.resolve(repo)
+    await parent.dispose()
+    expect(closed.sort()).toEqual(["db:acme", "db:globex", "db:shared", "http"])
+    await expect(other.resolve(repo)).rejects.toThrow("Scope is disposed")
+  })
+
+  it("runs parent extensions then its own, initializing only its own", async () => {
+    const events: string[] = []
+    const tracer = (name: string): Lite.Extension => ({
+      name,
+      init: () => { events.push(`init:${name}`) },
+      wrapExec: async (next) => {
+        events.push(`exec:${name}`)
+        return next()
+      },
+      dispose: () => { events.push(`dispose:${name}`) },
+    })
+    const parent = createScope({ extensions: [tracer("parent")] })
+    await parent.ready
+    const child = parent.fork({ extensions: [tracer("child")] })
+    await child.ready
+
+    await child.run({ flow: flow({ factory: () => "ok" }) })
+    await child.dispose()
+    expect(events).toEqual(["init:parent", "init:child", "exec:parent", "exec:child", "dispose:child"])
+  })
+})
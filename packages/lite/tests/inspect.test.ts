@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, flow, formatGraph, inspect, resource, tag, tags, type Lite } from "../src/index"
+
+const tenant = tag<string>({ label: "tenant" })
+const region = tag<string>({ label: "region", default: "eu" })
+
+const config = atom({ name: "config", factory: () => ({ url: "db://" }) })
+const db = atom({ name: "db", deps: { config }, factory: (_ctx, { config }) => config.url })
+const tx = resource({ name: "tx", deps: { db }, factory: (_ctx, { db }) => db })
+const audit = flow({ name: "audit", factory: () => undefined })
+const handle = flow({
+  name: "handle",
+  deps: {
+    tx,
+    db: controller(db),
+    audit: controller(audit),
+    tenant: tags.required(tenant),
+    region: tags.required(region),
+    extra: tags.optional(tenant),
+  },
+  factory: () => "ok",
+})
+
+describe("inspect", () => {
+  it("walks transitive dependencies into nodes and edges", () => {
+    const graph = inspect(handle)
+
+    expect(graph.roots).toEqual(["flow:handle"])
+    expect(graph.nodes.map((node) => node.id)).toEqual([
+      "flow:handle",
+      "resource:tx",
+      "atom:db",
+      "atom:config",
+      "flow:audit",
+      "tag:tenant",
+      "tag:region",
+    ])
+    expect(graph.edges).toEqual([
+      { from: "atom:db", to: "atom:config", key: "config", via: "value" },
+      { from: "resource:tx", to: "atom:db", key: "db", via: "value" },
+      { from: "flow:handle", to: "resource:tx", key: "tx", via: "value" },
+      { from: "flow:handle", to: "atom:db", key: "db", via: "controller" },
+      { from: "flow:handle", to: "flow:audit", key: "audit", via: "controller" },
+      { from: "flow:handle", to: "tag:tenant", key: "tenant", via: "required" },
+      { from: "flow:handle", to: "tag:region", key: "region", via: "required" },
+      { from: "flow:handle", to: "tag:tenant", key: "extra", via: "optional" },
+    ])
+    expect(graph.nodes.find((node) => node.id === "tag:region")?.hasDefault).toBe(true)
+  })
+
+  it("flags required tags without a default", () => {
+    const graph = inspect(handle)
+    expect(graph.issues).toEqual([{
+      kind: "missing-tag-default",
+      node: "tag:tenant",
+      from: "flow:handle",
+      message: 'Tag "tenant" is required by flow "handle" and has no default',
+    }])
+  })
+
+  it("flags picked tags without a default", () => {
+    const route = tag<string>({ label: "route" })
+    const home = atom({ name: "home", deps: { route: tags.pick(route), fallback: tags.pick(region) }, factory: () => 1 })
+    expect(inspect(home).issues).toEqual([{
+      kind: "missing-tag-default",
+      node: "tag:route",
+      from: "atom:home",
+      message: 'Tag "route" is picked by atom "home" and has no default',
+    }])
+  })
+
+  it("flags resources reachable from atoms", () => {
+    const session = resource({ name: "session", factory: () => "s" })
+    const leaky = atom({ name: "leaky", deps: { session } as unknown as Record<string, Lite.AtomDependency>, factory: () => 1 })
+    const outer = atom({ name: "outer", deps: { leaky }, factory: () => 2 })
+
+    const graph = inspect([outer, leaky])
+    expect(graph.roots).toEqual(["atom:outer", "atom:leaky"])
+    expect(graph.issues).toEqual([{
+      kind: "atom-resource",
+      node: "resource:session",
+      from: "atom:outer",
+      message: 'Resource "session" is reachable from atom "outer"',
+    }])
+  })
+
+  it("keeps ids unique for unnamed and duplicate nodes", () => {
+    const first = atom({ name: "dup", factory: () => 1 })
+    const second = atom({ name: "dup", factory: () => 2 })
+    const anonymous = atom({ factory: () => 3 })
+    expect(inspect([first, second, anonymous]).roots).toEqual(["atom:dup", "atom:dup#2", "atom:factory"])
+  })
+
+  it("exports DOT", () => {
+    const dot = formatGraph(inspect(handle), "dot")
+    expect(dot.startsWith("digraph {\n")).toBe(true)
+    expect(dot).toContain('"flow:handle" [label="handle", shape=ellipse];')
+    expect(dot).toContain('"tag:tenant" [label="tenant", shape=note, color=red];')
+    expect(dot).toContain('"flow:handle" -> "atom:db" [label="db (controller)", style=dashed];')
+    expect(dot).toContain('"flow:handle" -> "tag:region" [label="region (required)", style=dotted];')
+    expect(dot.endsWith("}")).toBe(true)
+  })
+
+  it("exports Mermaid", () => {
+    const quoted = atom({ name: 'say "hi"', factory: () => 1 })
+    const mermaid = formatGraph(inspect([handle, quoted]), "mermaid")
+    expect(mermaid.split("\n")).toEqual([
+      "flowchart LR",
+      '  n0(["handle"])',
+      '  n1[("tx")]',
+      '  n2["db"]',
+      '  n3["config"]',
+      '  n4(["audit"])',
+      '  n5{{"tenant"}}',
+      '  n6{{"region"}}',
+      '  n7["say #quot;hi#quot;"]',
+      '  n2 -->|"config"| n3',
+      '  n1 -->|"db"| n2',
+      '  n0 -->|"tx"| n1',
+      '  n0 -.->|"db (controller)"| n2',
+      '  n0 -.->|"audit (controller)"| n4',
+      '  n0 -.->|"tenant (required)"| n5',
+      '  n0 -.->|"region (required)"| n6',
+      '  n0 -.->|"extra (optional)"| n5',
+      "  classDef issue stroke:#d33,stroke-width:2px",
+      "  class n5 issue",
+    ])
+  })
+
+  it("exports JSON that round-trips the graph", () => {
+    const graph = inspect(handle)
+    expect(JSON.parse(formatGraph(graph, "json"))).toEqual(graph)
+  })
+})
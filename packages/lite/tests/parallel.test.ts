@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest"
+import { createScope, flow, FlowFault, typed, type Lite } from "../src/index"
+
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+  })
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => { resolve = r })
+  return { promise, resolve }
+}
+
+describe("parallel combinators", () => {
+  const double = flow({ name: "double", parse: typed<number>(), factory: (ctx) => ctx.input * 2 })
+  const label = flow({ name: "label", parse: typed<string>(), factory: (ctx) => `#${ctx.input}` })
+
+  it("all returns per-child outputs in order", async () => {
+    const ctx = createScope().createContext()
+    const [n, s] = await ctx.all([{ flow: double, input: 2 }, { flow: label, input: "a" }])
+    expect([n, s]).toEqual([4, "#a"])
+    expect(await ctx.all([])).toEqual([])
+    await ctx.close()
+  })
+
+  it("all aborts siblings on the first failure and waits for them to settle", async () => {
+    const aborted: unknown[] = []
+    const slow = flow({
+      name: "slow",
+      factory: async (ctx) => {
+        try {
+          return await hang(ctx.signal)
+        } catch (error) {
+          aborted.push(error)
+          throw error
+        }
+      },
+    })
+    let skippedRuns = 0
+    const skipped = flow({ factory: () => ++skippedRuns })
+    const broken = flow({ name: "broken", factory: async (): Promise<number> => { throw new Error("boom") } })
+    const ctx = createScope().createContext()
+
+    await expect(ctx.all([{ flow: slow }, { flow: broken }, { flow: skipped }], { concurrency: 2 })).rejects.toThrow("boom")
+    expect(aborted).toHaveLength(1)
+    expect((aborted[0] as DOMException).name).toBe("AbortError")
+    expect(skippedRuns).toBe(0)
+    expect(ctx.signal.aborted).toBe(false)
+    await ctx.close()
+  })
+
+  it("allSettled reports every outcome with typed faults", async () => {
+    const lookup = flow({
+      name: "lookup",
+      parse: typed<string>(),
+      faults: typed<{ kind: "missing"; id: string }>(),
+      factory: (ctx) => ctx.input === "x" ? ctx.fail({ kind: "missing", id: "x" }) : ctx.input,
+    })
+    const ctx = createScope().createContext()
+    const [found, missing] = await ctx.allSettled([{ flow: lookup, input: "a" }, { flow: lookup, input: "x" }])
+
+    expect(found).toEqual({ status: "fulfilled", value: "a" })
+    expect(missing.status).toBe("rejected")
+    if (missing.status === "rejected") {
+      expect(missing.reason).toBeInstanceOf(FlowFault)
+      expect(missing.fault).toEqual({ kind: "missing", id: "x" })
+    }
+    await ctx.close()
+  })
+
+  it("race settles with the first child and aborts the rest", async () => {
+    const gate = deferred<void>()
+    const fast = flow({ factory: async () => { await gate.promise; return "fast" } })
+    const signals: AbortSignal[] = []
+    const slow = flow({ factory: (ctx) => { signals.push(ctx.signal); return hang(ctx.signal) } })
+    const ctx = createScope().createContext()
+
+    const racing = ctx.race([{ flow: slow }, { flow: fast }])
+    gate.resolve()
+    expect(await racing).toBe("fast")
+    expect(signals[0]!.aborted).toBe(true)
+    await expect(ctx.race([])).rejects.toThrow("race() expects at least one execution")
+    await ctx.close()
+  })
+
+  it("any resolves with the first success and aggregates failures", async () => {
+    const broken = flow({ factory: (): string => { throw new Error("down") } })
+    const ok = flow({ factory: async () => "ok" })
+    const ctx = createScope().createContext()
+
+    expect(await ctx.any([{ flow: broken }, { flow: ok }])).toBe("ok")
+    const error = await ctx.any([{ flow: broken }, { flow: broken }]).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(AggregateError)
+    expect((error as AggregateError).errors.map((e: Error) => e.message)).toEqual(["down", "down"])
+    await ctx.close()
+  })
+
+  it("limits concurrency and runs each child through wrapExec as a child context", async () => {
+    const seen: (string | undefined)[] = []
+    const ext: Lite.Extension = {
+      name: "spy",
+      wrapExec: async (next, _target, ctx) => {
+        seen.push(`${ctx.parent?.name}>${ctx.name}`)
+        return next()
+      },
+    }
+    let active = 0
+    let peak = 0
+    const work = flow({
+      name: "work",
+      factory: async () => {
+        active++
+        peak = Math.max(peak, active)
+        await new Promise((r) => setTimeout(r, 1))
+        active--
+        return active
+      },
+    })
+    const parent = flow({
+      name: "parent",
+      factory: (ctx) => ctx.all([{ flow: work }, { flow: work }, { flow: work }], { concurrency: 2 }),
+    })
+    const scope = createScope({ extensions: [ext] })
+
+    await scope.run({ flow: parent })
+    expect(peak).toBe(2)
+    expect(seen).toEqual(["undefined>parent", "parent>work", "parent>work", "parent>work"])
+  })
+})
@@ -0,0 +1,249 @@
+import { afterEach, describe, it, expect, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { atom, createScope, fileStorage, memoryStorage, ParseError, webStorage, type Lite } from "../src/index"
+
+describe("atom persist", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("hydrates from storage instead of the factory and writes back on set and update", async () => {
+    const storage = memoryStorage({ prefs: JSON.stringify({ version: 0, value: { theme: "dark" } }) })
+    let factoryRuns = 0
+    const prefs = atom({
+      name: "prefs",
+      factory: () => {
+        factoryRuns++
+        return { theme: "light" }
+      },
+      persist: { storage },
+    })
+    const counter = atom({ factory: () => 1, persist: { storage, key: "app:counter" } })
+    const scope = createScope()
+
+    expect(await scope.resolve(prefs)).toEqual({ theme: "dark" })
+    expect(factoryRuns).toBe(0)
+    const counterCtrl = await scope.controller(counter, { resolve: true })
+    expect(storage.getItem("app:counter")).toBeNull()
+
+    scope.controller(prefs).set({ theme: "solarized" })
+    counterCtrl.update((n) => n + 1)
+    await scope.flush()
+    expect(JSON.parse(storage.getItem("prefs") as string)).toEqual({ version: 0, value: { theme: "solarized" } })
+    expect(storage.getItem("app:counter")).toBe('{"version":0,"value":2}')
+
+    scope.controller(prefs).invalidate()
+    await scope.flush()
+    expect(factoryRuns).toBe(1)
+    await scope.dispose()
+
+    const next = createScope()
+    expect(await next.resolve(counter)).toBe(2)
+    await next.dispose()
+  })
+
+  it("debounces writes and lands the pending one on dispose", async () => {
+    vi.useFakeTimers()
+    const writes: string[] = []
+    const storage = memoryStorage()
+    const draft = atom({
+      name: "draft",
+      factory: () => "",
+      persist: {
+        storage: { getItem: storage.getItem, setItem: (key, value) => { writes.push(value); return storage.setItem(key, value) } },
+        debounceMs: 200,
+      },
+    })
+    const scope = createScope()
+    const ctrl = await scope.controller(draft, { resolve: true })
+
+    ctrl.set("h")
+    await vi.advanceTimersByTimeAsync(100)
+    ctrl.set("hi")
+    await vi.advanceTimersByTimeAsync(199)
+    expect(writes).toEqual([])
+    await vi.advanceTimersByTimeAsync(1)
+    expect(writes).toEqual(['{"version":0,"value":"hi"}'])
+
+    ctrl.set("hi there")
+    await scope.dispose()
+    expect(writes).toEqual(['{"version":0,"value":"hi"}', '{"version":0,"value":"hi there"}'])
+  })
+
+  it("migrates older versions, ignores unmigrated ones, and reports newer ones", async () => {
+    const storage = memoryStorage({
+      settings: JSON.stringify({ version: 1, value: { dark: true } }),
+      legacy: JSON.stringify({ version: 0, value: "old" }),
+      future: JSON.stringify({ version: 9, value: "new" }),
+    })
+    const migrations: number[] = []
+    const errors: string[] = []
+    const settings = atom({
+      name: "settings",
+      factory: () => ({ theme: "light" }),
+      persist: {
+        storage,
+        version: 2,
+        migrate: (value, fromVersion) => {
+          migrations.push(fromVersion)
+          return { theme: (value as { dark: boolean }).dark ? "dark" : "light" }
+        },
+      },
+    })
+    const legacy = atom({ name: "legacy", factory: () => "fresh", persist: { storage, version: 1 } })
+    const future = atom({
+      name: "future",
+      factory: () => "fresh",
+      persist: { storage, version: 1, onError: (error) => errors.push(error.message) },
+    })
+    const scope = createScope()
+
+    expect(await scope.resolve(settings)).toEqual({ theme: "dark" })
+    expect(migrations).toEqual([1])
+    expect(await scope.resolve(legacy)).toBe("fresh")
+    expect(await scope.resolve(future)).toBe("fresh")
+    expect(errors).toEqual(['Persisted value "future" has version 9, newer than 1'])
+    await scope.flush()
+    expect(JSON.parse(storage.getItem("settings") as string)).toEqual({ version: 2, value: { theme: "dark" } })
+    await scope.dispose()
+  })
+
+  it("validates stored values with parse before skipping the factory", async () => {
+    const storage = memoryStorage({
+      good: JSON.stringify({ version: 0, value: 3 }),
+      bad: JSON.stringify({ version: 0, value: "three" }),
+    })
+    const errors: unknown[] = []
+    let cleanups = 0
+    const count = (raw: unknown) => {
+      if (typeof raw !== "number") throw new TypeError("expected a number")
+      return raw
+    }
+    const good = atom({
+      name: "good",
+      factory: (ctx) => {
+        ctx.cleanup(() => { cleanups++ })
+        return 0
+      },
+      persist: { storage, parse: count },
+    })
+    const bad = atom({ name: "bad", factory: () => 0, persist: { storage, parse: count, onError: (error) => errors.push(error) } })
+    const scope = createScope()
+
+    expect(await scope.resolve(good)).toBe(3)
+    expect(await scope.resolve(bad)).toBe(0)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(ParseError)
+    expect(errors[0]).toMatchObject({ phase: "persist", label: "bad", message: 'Failed to parse persisted value "bad"' })
+
+    scope.controller(good).invalidate()
+    await scope.flush()
+    expect(cleanups).toBe(0)
+    await scope.dispose()
+    expect(cleanups).toBe(1)
+  })
+
+  it("parses migrated values and passes stored values through wrapResolve", async () => {
+    const storage = memoryStorage({
+      limit: JSON.stringify({ version: 0, value: "10" }),
+      broken: JSON.stringify({ version: 0, value: "ten" }),
+    })
+    const errors: unknown[] = []
+    const resolved: string[] = []
+    const trace: Lite.Extension = {
+      name: "trace",
+      wrapResolve: async (next, event) => {
+        const value = await next()
+        resolved.push(`${event.target.name}:${JSON.stringify(value)}`)
+        return value
+      },
+    }
+    const count = (raw: unknown) => {
+      if (typeof raw !== "number") throw new TypeError("expected a number")
+      return raw
+    }
+    const persist = { storage, version: 1, parse: count, migrate: (value: Lite.JsonValue) => Number(value) }
+    const limit = atom({ name: "limit", factory: () => 0, persist })
+    const broken = atom({
+      name: "broken",
+      factory: () => 0,
+      persist: { ...persist, migrate: (value) => value as number, onError: (error) => errors.push(error) },
+    })
+    const scope = createScope({ extensions: [trace] })
+
+    expect(await scope.resolve(limit)).toBe(10)
+    expect(await scope.resolve(broken)).toBe(0)
+    expect(resolved).toEqual(["limit:10", "broken:0"])
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(ParseError)
+    await scope.dispose()
+  })
+
+  it("reports unserializable values and unreadable entries", async () => {
+    const errors: string[] = []
+    const storage = memoryStorage({ broken: "{not json" })
+    const when = atom({
+      name: "when",
+      factory: (): unknown => null,
+      persist: { storage, onError: (error) => errors.push(error.message) },
+    })
+    const broken = atom({ name: "broken", factory: () => "fallback", persist: { storage } })
+    const scope = createScope()
+
+    const whenCtrl = await scope.controller(when, { resolve: true })
+    whenCtrl.set(new Date(0))
+    await scope.flush()
+    expect(errors).toHaveLength(1)
+    expect(storage.getItem("when")).toBeNull()
+
+    expect(await scope.resolve(broken)).toBe("fallback")
+    await expect(scope.flush()).rejects.toThrow(SyntaxError)
+    expect(() => atom({ factory: () => 1, persist: { storage } })).toThrow("Persisted atoms require a name or persist.key")
+    await scope.dispose()
+  })
+
+  it("keeps unreported failures for flush across unrelated invalidations", async () => {
+    const storage = memoryStorage({ broken: "{not json" })
+    const broken = atom({ name: "broken", factory: () => "fallback", persist: { storage } })
+    const other = atom({ factory: () => 1 })
+    const scope = createScope()
+
+    expect(await scope.resolve(broken)).toBe("fallback")
+    const otherCtrl = await scope.controller(other, { resolve: true })
+    otherCtrl.invalidate()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    otherCtrl.invalidate()
+    await expect(scope.flush()).rejects.toThrow(SyntaxError)
+    await expect(scope.flush()).resolves.toBeUndefined()
+    await scope.dispose()
+  })
+
+  it("reads and writes through web and file storage adapters", async () => {
+    const raw = new Map<string, string>()
+    const local = { getItem: (key: string) => raw.get(key) ?? null, setItem: (key: string, value: string) => { raw.set(key, value) } }
+    const dir = await fs.mkdtemp(join(tmpdir(), "lite-persist-"))
+    try {
+      const files = fileStorage({ dir: join(dir, "state"), fs })
+      const web = webStorage(local, { prefix: "app:" })
+      const tab = atom({ name: "tab", factory: () => "home", persist: { storage: web } })
+      const notes = atom({ name: "notes/today", factory: () => [] as string[], persist: { storage: files } })
+
+      const scope = createScope()
+      ;(await scope.controller(tab, { resolve: true })).set("settings")
+      ;(await scope.controller(notes, { resolve: true })).set(["buy milk"])
+      await scope.dispose()
+      expect([...raw.keys()]).toEqual(["app:tab"])
+      expect(await fs.readdir(join(dir, "state"))).toEqual(["notes%2Ftoday.json"])
+
+      const reloaded = createScope()
+      expect(await reloaded.resolve(tab)).toBe("settings")
+      expect(await reloaded.resolve(notes)).toEqual(["buy milk"])
+      expect(await files.getItem("missing")).toBeNull()
+      await reloaded.dispose()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest"
+import { createScope, flow, ParseError, tag, type Lite } from "../src/index"
+
+type User = { id: string; age: number }
+
+function userSchema(mode: "sync" | "async" = "sync"): Lite.StandardSchemaV1<unknown, User> {
+  const check = (value: unknown): Lite.StandardSchemaResult<User> => {
+    const record = (value ?? {}) as { id?: unknown; age?: unknown }
+    const issues: Lite.StandardSchemaIssue[] = []
+    if (typeof record.id !== "string") issues.push({ message: "Expected string", path: ["id"] })
+    if (typeof record.age !== "number") issues.push({ message: "Expected number", path: [{ key: "age" }] })
+    return issues.length ? { issues } : { value: { id: record.id as string, age: record.age as number } }
+  }
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: mode === "sync" ? check : async (value) => check(value),
+    },
+  }
+}
+
+const positive: Lite.StandardSchemaV1<unknown, number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => typeof value === "number" && value > 0
+      ? { value }
+      : { issues: [{ message: "Expected a positive number" }] },
+  },
+}
+
+describe("Standard Schema parse", () => {
+  it("validates flow input with sync and async schemas", async () => {
+    const scope = createScope()
+    for (const mode of ["sync", "async"] as const) {
+      const greet = flow({
+        name: "greet",
+        parse: userSchema(mode),
+        factory: (ctx) => `${ctx.input.id}:${ctx.input.age}`,
+      })
+      expect(await scope.run({ flow: greet, rawInput: { id: "u1", age: 30 } })).toBe("u1:30")
+    }
+  })
+
+  it("exposes normalized issues on flow input failures", async () => {
+    let runs = 0
+    for (const mode of ["sync", "async"] as const) {
+      const greet = flow({
+        name: "greet",
+        parse: userSchema(mode),
+        factory: () => ++runs,
+      })
+      const error = await createScope().run({ flow: greet, rawInput: { age: "old" } }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ParseError)
+      const parseError = error as ParseError
+      expect(parseError.phase).toBe("flow-input")
+      expect(parseError.label).toBe("greet")
+      expect(parseError.issues).toEqual([
+        { message: "Expected string", path: ["id"] },
+        { message: "Expected number", path: ["age"] },
+      ])
+      expect((parseError.cause as Error).message).toBe("id: Expected string; age: Expected number")
+    }
+    expect(runs).toBe(0)
+  })
+
+  it("keeps issues empty for plain parse functions", async () => {
+    const strict = flow({
+      parse: (raw): string => {
+        if (typeof raw !== "string") throw new TypeError("not a string")
+        return raw
+      },
+      factory: (ctx) => ctx.input,
+    })
+    const error = await createScope().run({ flow: strict, rawInput: 1 }).catch((e: unknown) => e) as ParseError
+    expect(error.issues).toEqual([])
+    expect(error.cause).toBeInstanceOf(TypeError)
+  })
+
+  it("validates tag values", () => {
+    const retries = tag({ label: "retries", parse: positive })
+    expect(retries(3).value).toBe(3)
+
+    let caught: unknown
+    try {
+      retries(-1)
+    } catch (error) {
+      caught = error
+    }
+    expect(caught).toBeInstanceOf(ParseError)
+    expect((caught as ParseError).phase).toBe("tag")
+    expect((caught as ParseError).issues).toEqual([{ message: "Expected a positive number", path: [] }])
+  })
+
+  it("rejects async schemas on tags", () => {
+    const user = tag({ label: "user", parse: userSchema("async") })
+    expect(() => user({ id: "u1", age: 1 })).toThrow(ParseError)
+    try {
+      user({ id: "u1", age: 1 })
+    } catch (error) {
+      expect(((error as ParseError).cause as Error).message).toBe('Tag "user" schema must validate synchronously')
+    }
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope } from "../src/index"
+
+describe("scope.batch", () => {
+  function account() {
+    const balance = atom({ factory: () => 100 })
+    const pending = atom({ factory: () => 0 })
+    let builds = 0
+    const summary = atom({
+      deps: {
+        balance: controller(balance, { resolve: true, watch: true }),
+        pending: controller(pending, { resolve: true, watch: true }),
+      },
+      factory: (_, deps) => {
+        builds++
+        return deps.balance.get() + deps.pending.get()
+      },
+    })
+    return { balance, pending, summary, builds: () => builds }
+  }
+
+  it("notifies once per atom with the final values after async work", async () => {
+    const { balance, pending, summary, builds } = account()
+    const scope = createScope()
+    await scope.resolve(summary)
+    const balanceCtrl = scope.controller(balance)
+    const pendingCtrl = scope.controller(pending)
+    const seen: number[] = []
+    balanceCtrl.on("resolved", () => seen.push(balanceCtrl.get() + pendingCtrl.get()))
+    pendingCtrl.on("resolved", () => seen.push(balanceCtrl.get() + pendingCtrl.get()))
+    const total = scope.select(balance, (value) => value)
+    const totals: number[] = []
+    total.subscribe(() => totals.push(total.get()))
+
+    const result = await scope.batch(async () => {
+      balanceCtrl.update((value) => value - 30)
+      await Promise.resolve()
+      pendingCtrl.set(30)
+      balanceCtrl.update((value) => value - 5)
+      expect(seen).toEqual([])
+      return balanceCtrl.get()
+    })
+    expect(result).toBe(65)
+    expect(seen).toEqual([95, 95])
+    expect(totals).toEqual([65])
+
+    await scope.flush()
+    expect(scope.controller(summary).get()).toBe(95)
+    expect(builds()).toBe(2)
+  })
+
+  it("defers invalidations until the batch commits", async () => {
+    let loads = 0
+    const rates = atom({ factory: () => ++loads })
+    const scope = createScope()
+    const ctrl = await scope.controller(rates, { resolve: true })
+
+    await scope.batch(async () => {
+      ctrl.invalidate()
+      await scope.flush()
+      expect(loads).toBe(1)
+    })
+    await scope.flush()
+    expect(loads).toBe(2)
+  })
+
+  it("rolls back writes and invalidations when the batch throws", async () => {
+    const { balance, pending, summary, builds } = account()
+    const scope = createScope()
+    await scope.resolve(summary)
+    const balanceCtrl = scope.controller(balance)
+    const pendingCtrl = scope.controller(pending)
+    const events: string[] = []
+    balanceCtrl.on("resolved", () => events.push("balance"))
+    pendingCtrl.on("*", () => events.push(`pending:${pendingCtrl.state}`))
+
+    await expect(scope.batch(async () => {
+      balanceCtrl.set(0)
+      pendingCtrl.invalidate()
+      await Promise.resolve()
+      throw new Error("transfer declined")
+    })).rejects.toThrow("transfer declined")
+
+    await scope.flush()
+    expect(balanceCtrl.get()).toBe(100)
+    expect(events).toEqual([])
+    expect(builds()).toBe(1)
+  })
+
+  it("undoes only a failed nested batch", async () => {
+    const { balance, pending } = account()
+    const scope = createScope()
+    const balanceCtrl = await scope.controller(balance, { resolve: true })
+    const pendingCtrl = await scope.controller(pending, { resolve: true })
+    const seen: string[] = []
+    balanceCtrl.on("resolved", () => seen.push(`balance:${balanceCtrl.get()}`))
+    pendingCtrl.on("resolved", () => seen.push(`pending:${pendingCtrl.get()}`))
+
+    await scope.batch(async () => {
+      balanceCtrl.set(50)
+      await scope.batch(() => {
+        pendingCtrl.set(10)
+        balanceCtrl.set(40)
+        throw new Error("nested")
+      }).catch(() => {})
+      expect(balanceCtrl.get()).toBe(50)
+      expect(pendingCtrl.get()).toBe(0)
+    })
+    expect(seen).toEqual(["balance:50"])
+  })
+
+  it("keeps an outer batch's invalidations when a nested batch repeating them fails", async () => {
+    let loads = 0
+    const rates = atom({ factory: () => ++loads })
+    const scope = createScope()
+    const ctrl = await scope.controller(rates, { resolve: true })
+
+    await scope.batch(async () => {
+      ctrl.invalidate()
+      await expect(scope.batch(async () => {
+        ctrl.invalidate()
+        await Promise.resolve()
+        throw new Error("nested")
+      })).rejects.toThrow("nested")
+    })
+    await scope.flush()
+    expect(loads).toBe(2)
+  })
+
+  it("holds a settled batch until every overlapping batch settles", async () => {
+    const { balance, pending } = account()
+    const scope = createScope()
+    const balanceCtrl = await scope.controller(balance, { resolve: true })
+    const pendingCtrl = await scope.controller(pending, { resolve: true })
+    const seen: string[] = []
+    balanceCtrl.on("resolved", () => seen.push(`balance:${balanceCtrl.get()}`))
+    pendingCtrl.on("resolved", () => seen.push(`pending:${pendingCtrl.get()}`))
+    let resume!: () => void
+    const paused = new Promise<void>((resolve) => { resume = resolve })
+
+    const first = scope.batch(async () => {
+      balanceCtrl.set(70)
+      await Promise.resolve()
+    })
+    const second = scope.batch(async () => {
+      await paused
+      pendingCtrl.set(30)
+      throw new Error("declined")
+    })
+    await first
+    expect(seen).toEqual([])
+
+    resume()
+    await expect(second).rejects.toThrow("declined")
+    expect(seen).toEqual(["balance:70"])
+    expect(pendingCtrl.get()).toBe(0)
+  })
+
+  it("commits a synchronous batch before returning", async () => {
+    const { balance } = account()
+    const scope = createScope()
+    const ctrl = await scope.controller(balance, { resolve: true })
+    const seen: number[] = []
+    ctrl.on("resolved", () => seen.push(ctrl.get()))
+
+    const done = scope.batch(() => {
+      ctrl.set(1)
+      ctrl.set(2)
+    })
+    expect(seen).toEqual([2])
+    await done
+  })
+})
@@ -816,9 +816,9 @@ describe("ExecutionContext", () => {
       })
 
       await expect(contextOnlyCtx.resolve(taggedAtom)).rejects.toThrow('Tag "ctx-resolve-request" not found')
-      expect(() => scope.createContext([requestTag("legacy")] as never)).toThrow("createContext() expects { tags, parent, signal }")
+      expect(() => scope.createContext([requestTag("legacy")] as never)).toThrow("createContext() expects { tags, parent, signal, timeout, deadline, presets }")
       expect(() => scope.createContext({ tag: [requestTag("typo")] } as never))
-        .toThrow('createContext() expects { tags, parent, signal }; received "tag"')
+        .toThrow('createContext() expects { tags, parent, signal, timeout, deadline, presets }; received "tag"')
       const singleTagCtx = scope.createContext({ tags: requestTag("single") })
       expect(singleTagCtx.data.seekTag(requestTag)).toBe("single")
 
@@ -6382,3 +6382,49 @@ describe("same-turn batched mutations", () => {
     await scope.dispose()
   })
 })
+
+describe("atom names", () => {
+  it("keeps the configured name on the atom", () => {
+    const named = atom({ name: "config", factory: () => 1 })
+    const unnamed = atom({ factory: () => 1 })
+    expect(named.name).toBe("config")
+    expect(unnamed.name).toBeUndefined()
+  })
+
+  it("names the atom when a controller reads it before resolution", async () => {
+    const named = atom({ name: "config", factory: () => 1 })
+    const scope = createScope()
+    expect(() => scope.controller(named).get()).toThrow("Atom not resolved: config")
+    expect(() => scope.controller(named).set(2)).toThrow("Atom not resolved: config")
+    expect(() => scope.controller(named).update((v) => v + 1)).toThrow("Atom not resolved: config")
+    await scope.dispose()
+  })
+
+  it("reports names in the invalidation loop path", async () => {
+    let armed = false
+    let sourceRef!: Lite.Controller<number>
+    const source = atom({
+      name: "source",
+      factory: () => {
+        if (armed) sourceRef.set(1)
+        return 0
+      },
+    })
+    const writer = atom({
+      name: "writer",
+      deps: { source: controller(source, { resolve: true, watch: true }) },
+      factory: (_, d) => {
+        if (armed) sourceRef.invalidate()
+        return d.source.get()
+      },
+    })
+    const scope = createScope({ gc: { enabled: false } })
+    sourceRef = scope.controller(source)
+    await scope.resolve(writer)
+
+    armed = true
+    sourceRef.invalidate()
+    await expect(scope.flush()).rejects.toThrow("Infinite invalidation loop detected: writer → writer")
+    await scope.dispose()
+  })
+})
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest"
+import { setFlagsFromString } from "node:v8"
+import { runInNewContext } from "node:vm"
+import { atom, createScope, flow, ShutdownError } from "../src/index"
+
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+  })
+}
+
+describe("scope shutdown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("rejects new root contexts and runs with a ShutdownError", async () => {
+    const scope = createScope()
+    const open = scope.createContext()
+    const shutdown = scope.shutdown({ drainMs: 100 })
+
+    expect(() => scope.createContext()).toThrow(ShutdownError)
+    await expect(scope.run({ name: "late", params: [], fn: () => 1 })).rejects.toBeInstanceOf(ShutdownError)
+    expect(scope.createContext({ parent: open }).parent).toBe(open)
+
+    await open.close()
+    expect(await shutdown).toEqual({ forced: [] })
+  })
+
+  it("waits for open contexts to close within the drain window", async () => {
+    let cleaned = false
+    const pool = atom({
+      name: "pool",
+      factory: (ctx) => {
+        ctx.cleanup(() => { cleaned = true })
+        return "pool"
+      },
+    })
+    const scope = createScope()
+    await scope.resolve(pool)
+    const ctx = scope.createContext()
+    let settled = false
+    const shutdown = scope.shutdown({ drainMs: 1_000 }).then((report) => {
+      settled = true
+      return report
+    })
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(settled).toBe(false)
+    expect(ctx.signal.aborted).toBe(false)
+    expect(cleaned).toBe(false)
+
+    await ctx.close()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(await shutdown).toEqual({ forced: [] })
+    expect(cleaned).toBe(true)
+  })
+
+  it("aborts and reports contexts still open after the drain window", async () => {
+    const slow = flow({ name: "slow", factory: (ctx) => hang(ctx.signal) })
+    const scope = createScope()
+    const running = scope.run({ flow: slow })
+    const caught = running.catch((error: unknown) => error)
+    const idle = scope.createContext({ tags: [] })
+    const shutdown = scope.shutdown({ drainMs: 200 })
+
+    await vi.advanceTimersByTimeAsync(200)
+    const report = await shutdown
+
+    expect(report.forced).toHaveLength(2)
+    expect(report.forced).toContain(idle)
+    expect(idle.signal.reason).toBeInstanceOf(ShutdownError)
+    expect(await caught).toBeInstanceOf(ShutdownError)
+    expect(() => scope.createContext()).toThrow("Scope is disposed")
+  })
+
+  it("drains in-flight streams", async () => {
+    const ticks = flow({
+      factory: async function* (ctx) {
+        yield 1
+        await hang(ctx.signal)
+      },
+    })
+    const scope = createScope()
+    const stream = scope.runStream({ flow: ticks })
+    const iterator = stream[Symbol.asyncIterator]()
+    expect((await iterator.next()).value).toBe(1)
+
+    const shutdown = scope.shutdown({ drainMs: 50 })
+    const next = iterator.next().catch((error: unknown) => error)
+    await vi.advanceTimersByTimeAsync(50)
+
+    expect((await shutdown).forced).toHaveLength(1)
+    expect(await next).toBeInstanceOf(ShutdownError)
+  })
+
+  it("ends the drain early when the signal aborts", async () => {
+    const scope = createScope()
+    const ctx = scope.createContext()
+    const controller = new AbortController()
+    const shutdown = scope.shutdown({ drainMs: 60_000, signal: controller.signal })
+
+    controller.abort()
+    expect((await shutdown).forced).toEqual([ctx])
+    expect(ctx.signal.aborted).toBe(true)
+  })
+
+  it("does not wait on root contexts that were dropped without closing", async () => {
+    vi.useRealTimers()
+    setFlagsFromString("--expose-gc")
+    const collect = runInNewContext("gc") as () => void
+    const scope = createScope()
+    ;(() => { scope.createContext() })()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    collect()
+
+    expect(await scope.shutdown({ drainMs: 10_000 })).toEqual({ forced: [] })
+  })
+
+  it("returns the same report to repeated calls", async () => {
+    const scope = createScope()
+    const first = scope.shutdown()
+    expect(scope.shutdown()).toBe(first)
+    expect(await first).toEqual({ forced: [] })
+  })
+})
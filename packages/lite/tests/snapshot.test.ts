@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope, preset } from "../src/index"
+
+describe("scope snapshot", () => {
+  it("round-trips serializable atoms without re-running their factories", async () => {
+    let runs = 0
+    const config = atom({
+      name: "config",
+      serializable: true,
+      factory: () => {
+        runs++
+        return { port: 8080, hosts: ["a", "b"] }
+      },
+    })
+    const local = atom({ name: "local", factory: () => "not shipped" })
+
+    const server = createScope()
+    await server.resolve(config)
+    await server.resolve(local)
+    const snapshot = server.snapshot()
+    expect(snapshot).toEqual({ config: { port: 8080, hosts: ["a", "b"] } })
+
+    const client = createScope({ hydrate: JSON.parse(JSON.stringify(snapshot)) })
+    expect(await client.resolve(config)).toEqual({ port: 8080, hosts: ["a", "b"] })
+    expect(runs).toBe(1)
+    expect(client.snapshot()).toEqual(snapshot)
+  })
+
+  it("exposes hydrated values to controllers and dependents before resolve", async () => {
+    const count = atom({ name: "count", serializable: true, factory: () => 0 })
+    const doubled = atom({ deps: { count }, factory: (_ctx, { count }) => count * 2 })
+    const scope = createScope({ hydrate: { count: 21 } })
+
+    const ctrl = scope.controller(count)
+    expect(ctrl.state).toBe("resolved")
+    expect(ctrl.get()).toBe(21)
+    expect(await scope.resolve(doubled)).toBe(42)
+  })
+
+  it("runs the factory again once a hydrated atom is invalidated", async () => {
+    let runs = 0
+    const clock = atom({
+      name: "clock",
+      serializable: true,
+      factory: () => ++runs,
+    })
+    const scope = createScope({ hydrate: { clock: 100 } })
+
+    expect(await scope.resolve(clock)).toBe(100)
+    scope.controller(clock).invalidate()
+    await scope.flush()
+    expect(scope.controller(clock).get()).toBe(1)
+    expect(runs).toBe(1)
+  })
+
+  it("hydrates only the first resolution of each entry", async () => {
+    const token = atom({ name: "token", serializable: true, factory: () => "fresh" })
+    const scope = createScope({ hydrate: { token: "cached" } })
+
+    expect(await scope.resolve(token)).toBe("cached")
+    await scope.release(token)
+    expect(await scope.resolve(token)).toBe("fresh")
+  })
+
+  it("lets presets win over hydrated values", async () => {
+    const mode = atom({ name: "mode", serializable: true, factory: () => "factory" })
+    const scope = createScope({ presets: [preset(mode, "preset")], hydrate: { mode: "hydrated" } })
+    expect(await scope.resolve(mode)).toBe("preset")
+  })
+
+  it("ignores hydrated names for atoms not marked serializable", async () => {
+    const user = atom({ name: "user", factory: () => "factory" })
+    const scope = createScope({ hydrate: { user: "hydrated" } })
+    expect(await scope.resolve(user)).toBe("factory")
+  })
+
+  it("skips unresolved and failed atoms", async () => {
+    const idle = atom({ name: "idle", serializable: true, factory: () => 1 })
+    const broken = atom({
+      name: "broken",
+      serializable: true,
+      factory: (): number => {
+        throw new Error("broken")
+      },
+    })
+    const scope = createScope()
+    scope.controller(idle)
+    await expect(scope.resolve(broken)).rejects.toThrow("broken")
+    expect(scope.snapshot()).toEqual({})
+  })
+
+  it("reports the atom and path of non-serializable values", async () => {
+    const session = atom({
+      name: "session",
+      serializable: true,
+      factory: () => ({ user: { since: new Date(0) } }),
+    })
+    const scope = createScope()
+    await scope.resolve(session)
+    expect(() => scope.snapshot()).toThrow('Atom "session" is not serializable: Non-plain object at $.user.since')
+  })
+
+  it("rejects duplicate names in one snapshot", async () => {
+    const first = atom({ name: "shared", serializable: true, factory: () => 1 })
+    const second = atom({ name: "shared", serializable: true, factory: () => 2 })
+    const scope = createScope()
+    await scope.resolve(first)
+    await scope.resolve(second)
+    expect(() => scope.snapshot()).toThrow("Duplicate serializable atom name: shared")
+  })
+
+  it("rejects a second atom hydrating an already claimed name", async () => {
+    const first = atom({ name: "shared", serializable: true, factory: () => 1 })
+    const second = atom({ name: "shared", serializable: true, factory: () => 2 })
+    const scope = createScope({ hydrate: { shared: 10 } })
+    expect(await scope.resolve(first)).toBe(10)
+    await expect(scope.resolve(second)).rejects.toThrow("Duplicate serializable atom name: shared")
+  })
+
+  it("re-derives a hydrated dependent when a watched dep changes", async () => {
+    let builds = 0
+    const theme = atom({ factory: () => "light" })
+    const label = atom({
+      name: "label",
+      serializable: true,
+      deps: { theme: controller(theme, { resolve: true, watch: true }) },
+      factory: (_ctx, { theme }) => {
+        builds++
+        return `theme:${theme.get()}`
+      },
+    })
+    const scope = createScope({ hydrate: { label: "theme:dark" } })
+    expect(await scope.resolve(label)).toBe("theme:dark")
+    await scope.flush()
+    expect(builds).toBe(0)
+
+    scope.controller(theme).set("blue")
+    await scope.flush()
+    expect(scope.controller(label).get()).toBe("theme:blue")
+    expect(builds).toBe(1)
+  })
+
+  it("requires a name on serializable atoms", () => {
+    expect(() => atom({ serializable: true, factory: () => 1 })).toThrow("Serializable atoms require a name")
+  })
+
+  it("validates hydrated values", () => {
+    expect(() => createScope({ hydrate: { bad: Number.NaN } })).toThrow("Non-finite number at $.bad")
+  })
+
+  it("resolves controller deps from hydrated values", async () => {
+    let runs = 0
+    const theme = atom({
+      name: "theme",
+      serializable: true,
+      factory: () => {
+        runs++
+        return "light"
+      },
+    })
+    const label = atom({
+      deps: { theme: controller(theme, { resolve: true }) },
+      factory: (_ctx, { theme }) => `theme:${theme.get()}`,
+    })
+    const scope = createScope({ hydrate: { theme: "dark" } })
+    expect(await scope.resolve(label)).toBe("theme:dark")
+    expect(runs).toBe(0)
+  })
+})
@@ -1150,3 +1150,136 @@ describe("declared flow tree activation", () => {
     await scope.dispose()
   })
 })
+
+describe("atom teardown ordering", () => {
+  it("tears dependents down before the dependencies they resolved", async () => {
+    const events: string[] = []
+    const flushed = deferred()
+    const pool = atom({
+      name: "pool",
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("pool-close") })
+        return { open: true }
+      },
+    })
+    const repository = atom({
+      name: "repository",
+      deps: { pool },
+      factory: (ctx, { pool }) => {
+        ctx.cleanup(async () => {
+          events.push("repository-flush-start")
+          await flushed.promise
+          events.push(`repository-flush-end:${pool.open}`)
+        })
+        return { pool }
+      },
+    })
+    const service = atom({
+      name: "service",
+      deps: { repository },
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("service-stop") })
+        return "service"
+      },
+    })
+    const scope = createScope()
+    await scope.resolve(pool)
+    await scope.resolve(service)
+
+    const disposing = scope.dispose()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(events).toEqual(["service-stop", "repository-flush-start"])
+
+    flushed.resolve()
+    await disposing
+    expect(events).toEqual(["service-stop", "repository-flush-start", "repository-flush-end:true", "pool-close"])
+  })
+
+  it("tears independent branches down in parallel", async () => {
+    const events: string[] = []
+    const gates = { left: deferred(), right: deferred() }
+    const base = atom({
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("base") })
+        return 0
+      },
+    })
+    const branch = (name: "left" | "right") => atom({
+      deps: { base },
+      factory: (ctx) => {
+        ctx.cleanup(async () => {
+          events.push(`${name}-start`)
+          await gates[name].promise
+          events.push(`${name}-end`)
+        })
+        return name
+      },
+    })
+    const left = branch("left")
+    const right = branch("right")
+    const scope = createScope()
+    await scope.resolve(left)
+    await scope.resolve(right)
+
+    const disposing = scope.dispose()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(events.sort()).toEqual(["left-start", "right-start"])
+
+    gates.right.resolve()
+    gates.left.resolve()
+    await disposing
+    expect(events.at(-1)).toBe("base")
+  })
+
+  it("releases cached dependents before a released dependency", async () => {
+    const events: string[] = []
+    const config = atom({
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("config") })
+        return { url: "db://" }
+      },
+    })
+    const db = atom({
+      deps: { config: controller(config, { resolve: true }) },
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("db") })
+        return "db"
+      },
+    })
+    const unrelated = atom({ factory: () => "unrelated" })
+    const scope = createScope()
+    await scope.resolve(db)
+    await scope.resolve(unrelated)
+
+    await scope.release(config)
+
+    expect(events).toEqual(["db", "config"])
+    expect(scope.controller(db).state).toBe("idle")
+    expect(scope.controller(unrelated).state).toBe("resolved")
+    await scope.dispose()
+  })
+
+  it("still releases a dependency when a dependent's teardown fails", async () => {
+    const events: string[] = []
+    const base = atom({
+      factory: (ctx) => {
+        ctx.cleanup(() => { events.push("base") })
+        return 1
+      },
+    })
+    const dependent = atom({
+      deps: { base },
+      factory: () => 2,
+    })
+    const scope = createScope()
+    await scope.resolve(dependent)
+    scope.controller(dependent).on("*", () => {
+      throw new Error("listener failed")
+    })
+
+    await expect(scope.release(base)).rejects.toThrow("listener failed")
+    expect(events).toEqual(["base"])
+    expect(scope.controller(base).state).toBe("idle")
+    await scope.dispose()
+  })
+})
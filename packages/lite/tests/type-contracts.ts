@@ -1,4 +1,4 @@
-import { atom, controller, createScope, flow, preset, resource, tag, tags, typed, type Lite } from "../src"
+import { atom, batchedFlow, computed, controller, createScope, flow, memoryStorage, preset, resource, shallowEqual, tag, tags, typed, webStorage, type Lite } from "../src"
 
 const sourceAtom = atom({
   factory: () => 1,
@@ -612,3 +612,244 @@ flow({
     return { profile, optionalHandle, allHandles }
   },
 })
+
+async function parallelContracts(ctx: Lite.ExecutionContext) {
+  const count = flow({ parse: typed<{ n: number }>(), factory: (ctx) => ctx.input.n })
+  const label = flow({ faults: typed<"missing">(), factory: () => "label" })
+
+  const [n, text] = await ctx.all([{ flow: count, input: { n: 1 } }, { flow: label }])
+  const checkN: number = n
+  const checkText: string = text
+  const settled = await ctx.allSettled([{ flow: label }])
+  if (settled[0].status === "rejected") {
+    const fault: "missing" | undefined = settled[0].fault
+    void fault
+  }
+  const first: number | string = await ctx.race([{ flow: count, input: { n: 1 } }, { flow: label }])
+  // @ts-expect-error input must match the entry's flow
+  await ctx.all([{ flow: count, input: { n: "1" } }])
+  void checkN
+  void checkText
+  void first
+}
+void parallelContracts
+
+async function tryExecContracts(ctx: Lite.ExecutionContext, scope: Lite.Scope) {
+  const lookup = flow({
+    parse: typed<string>(),
+    faults: typed<{ kind: "missing"; id: string } | { kind: "locked" }>(),
+    factory: (ctx) => ctx.input,
+  })
+  const plain = flow({ factory: () => 1 })
+
+  const result = await ctx.tryExec({ flow: lookup, input: "a" })
+  if (result.ok) {
+    const value: string = result.value
+    void value
+  } else if ("fault" in result) {
+    switch (result.fault.kind) {
+      case "missing": {
+        const id: string = result.fault.id
+        void id
+        break
+      }
+      case "locked":
+        break
+      default: {
+        const exhaustive: never = result.fault
+        void exhaustive
+      }
+    }
+  }
+  const run = await scope.tryRun({ flow: plain })
+  if (!run.ok && "fault" in run) {
+    const never: never = run.fault
+    void never
+  }
+  const handler = flow({
+    deps: { lookup },
+    factory: (_ctx, { lookup }) => lookup.tryExec({ input: "a" }),
+  })
+  const nested = await ctx.exec({ flow: handler })
+  if (!nested.ok && "fault" in nested) {
+    const kind: "missing" | "locked" = nested.fault.kind
+    void kind
+  }
+  // @ts-expect-error input must match the flow
+  await ctx.tryExec({ flow: lookup, input: 1 })
+}
+void tryExecContracts
+
+function mapFaultsContracts() {
+  const child = flow({
+    parse: typed<string>(),
+    faults: typed<{ kind: "missing" } | { kind: "locked" }>(),
+    factory: (ctx) => ctx.input,
+  })
+  const parent = flow({
+    faults: typed<"retry" | "gone">(),
+    deps: {
+      child: controller(child, { mapFaults: (fault) => fault.kind === "locked" ? "retry" as const : "gone" as const }),
+    },
+    factory: async (_ctx, { child }) => {
+      const result = await child.tryExec({ input: "a" })
+      if (!result.ok && "fault" in result) {
+        const fault: "retry" | "gone" = result.fault
+        void fault
+      }
+      return child.exec({ input: "a" })
+    },
+  })
+  flow({
+    faults: typed<"retry">(),
+    deps: {
+      // @ts-expect-error every mapped fault must be declared by the depending flow
+      child: controller(child, { mapFaults: (fault) => fault.kind === "locked" ? "retry" as const : "gone" as const }),
+    },
+    factory: () => "x",
+  })
+  flow({
+    faults: typed<"retry" | "gone">(),
+    deps: {
+      // @ts-expect-error a mapper that can fall through returns undefined
+      child: controller(child, {
+        mapFaults: (fault) => {
+          if (fault.kind === "locked") return "retry" as const
+        },
+      }),
+    },
+    factory: () => "x",
+  })
+  flow({
+    faults: typed<"retry">(),
+    deps: { child, handle: controller(child) },
+    factory: () => "x",
+  })
+  void parent
+}
+void mapFaultsContracts
+
+function compensateContracts(ctx: Lite.ExecutionContext) {
+  const cancel: () => void = ctx.compensate((id: string, cents: number) => { void id; void cents }, "p1", 500)
+  // @ts-expect-error params must match the compensation's arguments
+  ctx.compensate((id: string) => { void id }, 1)
+  ctx.onClose((result) => {
+    if (!result.ok) {
+      const failures: readonly Lite.CompensationFailure[] | undefined = result.compensationFailures
+      void failures
+    }
+  })
+  void cancel
+}
+void compensateContracts
+
+async function batchedFlowContracts(ctx: Lite.ExecutionContext) {
+  const config = atom({ factory: () => ({ scale: 2 }) })
+  const scaled = batchedFlow({
+    parse: typed<number>(),
+    faults: typed<"negative">(),
+    deps: { config },
+    load: (ctx, { config }) => ctx.input.map((n) => n < 0
+      ? { ok: false as const, fault: "negative" as const }
+      : { ok: true as const, value: n * config.scale }),
+  })
+  const value: number = await ctx.exec({ flow: scaled, input: 1 })
+  const result = await ctx.tryExec({ flow: scaled, input: -1 })
+  if (!result.ok && "fault" in result) {
+    const fault: "negative" = result.fault
+    void fault
+  }
+  batchedFlow({
+    parse: typed<number>(),
+    // @ts-expect-error load must return one ExecResult per input
+    load: (ctx) => ctx.input.map((n) => n * 2),
+  })
+  // @ts-expect-error input must match the batched flow's parse type
+  await ctx.exec({ flow: scaled, input: "1" })
+  void value
+}
+void batchedFlowContracts
+
+function computedContracts(ctrl: Lite.Controller<number>) {
+  const doubled: Lite.SelectHandle<number> = computed(() => ctrl.get() * 2)
+  const label = computed(() => ({ text: String(ctrl.get()) }), { eq: (prev, next) => prev.text === next.text })
+  const text: string = label.get().text
+  // @ts-expect-error eq compares computed values
+  computed(() => ctrl.get(), { eq: (prev: string, next: string) => prev === next })
+  void doubled
+  void text
+}
+void computedContracts
+
+function atomEqContracts() {
+  const settings = atom({
+    factory: () => ({ theme: "dark", fontSize: 14 }),
+    eq: (prev, next) => prev.theme === next.theme && prev.fontSize === next.fontSize,
+  })
+  const shared: Lite.Atom<{ theme: string; fontSize: number }> = atom({ factory: () => ({ theme: "dark", fontSize: 14 }), eq: shallowEqual })
+  atom({
+    factory: () => 1,
+    // @ts-expect-error eq compares the atom's value type
+    eq: (prev: string, next: string) => prev === next,
+  })
+  void settings
+  void shared
+}
+void atomEqContracts
+
+async function scopeBatchContracts(scope: Lite.Scope, ctrl: Lite.Controller<number>) {
+  const sync: number = await scope.batch(() => {
+    ctrl.set(1)
+    return ctrl.get()
+  })
+  const async: string = await scope.batch(async () => String(ctrl.get()))
+  // @ts-expect-error batch resolves to the function's result type
+  const wrong: string = await scope.batch(() => 1)
+  void sync
+  void async
+  void wrong
+}
+void scopeBatchContracts
+
+function atomRefreshContracts() {
+  const rates = atom({
+    factory: async () => ({ usd: 1 }),
+    refresh: { intervalMs: 60_000, staleMs: 30_000, onError: (error) => { void error.message } },
+  })
+  const policy: Lite.AtomRefreshPolicy | undefined = rates.refresh
+  // @ts-expect-error intervalMs is a number of milliseconds
+  atom({ factory: () => 1, refresh: { intervalMs: "1m" } })
+  void policy
+}
+void atomRefreshContracts
+
+function atomPersistContracts() {
+  const storage = memoryStorage()
+  const prefs = atom({
+    name: "prefs",
+    factory: () => ({ theme: "light" }),
+    persist: { storage, version: 2, migrate: (value, fromVersion) => ({ theme: fromVersion === 1 ? String(value) : "light" }) },
+  })
+  const policy: Lite.AtomPersistPolicy<{ theme: string }> | undefined = prefs.persist
+  const local: Lite.PersistStorage = webStorage({ getItem: () => null, setItem: () => {} })
+  atom({
+    name: "count",
+    factory: () => 0,
+    // @ts-expect-error migrate must return the atom's value type
+    persist: { storage, migrate: () => "zero" },
+  })
+  atom({
+    name: "total",
+    factory: () => 0,
+    persist: { storage, parse: (raw) => typeof raw === "number" ? raw : 0 },
+  })
+  atom({
+    name: "label",
+    factory: () => "",
+    // @ts-expect-error parse must return the atom's value type
+    persist: { storage, parse: (raw) => raw },
+  })
+  void policy
+  void local
+}
+void atomPersistContracts
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest"
+import { atom, controller, createScope, preset, WarmupError, type Lite } from "../src/index"
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => { resolve = r })
+  return { promise, resolve }
+}
+
+describe("scope warmup", () => {
+  it("resolves targets after their transitive deps", async () => {
+    const order: string[] = []
+    const config = atom({ name: "config", factory: async () => { order.push("config"); return 1 } })
+    const pool = atom({ name: "pool", deps: { config }, factory: (_ctx, { config }) => { order.push("pool"); return config } })
+    const cache = atom({ name: "cache", deps: { config: controller(config, { resolve: true }) }, factory: () => { order.push("cache"); return 2 } })
+    const scope = createScope()
+
+    await scope.warm([pool, cache])
+
+    expect(order[0]).toBe("config")
+    expect(order.slice(1).sort()).toEqual(["cache", "pool"])
+    expect(scope.controller(pool).state).toBe("resolved")
+    expect(scope.controller(cache).state).toBe("resolved")
+  })
+
+  it("resolves independent branches in parallel up to the concurrency limit", async () => {
+    const gates = [deferred(), deferred(), deferred()]
+    let active = 0
+    let peak = 0
+    const branches = gates.map((gate, i) => atom({
+      name: `branch${i}`,
+      factory: async () => {
+        active++
+        peak = Math.max(peak, active)
+        await gate.promise
+        active--
+        return i
+      },
+    }))
+    const scope = createScope()
+
+    const warming = scope.warm(branches, { concurrency: 2 })
+    await Promise.resolve()
+    expect(active).toBe(2)
+    for (const gate of gates) gate.resolve()
+    await warming
+    expect(peak).toBe(2)
+
+    const unbounded = createScope()
+    const again = [deferred(), deferred()]
+    active = 0
+    peak = 0
+    const pair = again.map((gate, i) => atom({
+      factory: async () => {
+        active++
+        peak = Math.max(peak, active)
+        await gate.promise
+        active--
+        return i
+      },
+    }))
+    const all = unbounded.warm(pair)
+    await Promise.resolve()
+    for (const gate of again) gate.resolve()
+    await all
+    expect(peak).toBe(2)
+  })
+
+  it("reports every failed atom and skips their dependents", async () => {
+    let dependentRuns = 0
+    const db = atom({ name: "db", factory: async (): Promise<number> => { throw new Error("db down") } })
+    const queue = atom({ name: "queue", factory: (): number => { throw new Error("queue down") } })
+    const repo = atom({ name: "repo", deps: { db }, factory: () => { dependentRuns++ } })
+    const fine = atom({ name: "fine", factory: () => "ok" })
+    const scope = createScope()
+
+    const error = await scope.warm([repo, queue, fine]).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(WarmupError)
+    const warmup = error as WarmupError
+    expect(warmup.message).toBe("warmup failed for db, queue")
+    expect(warmup.failures.map((failure) => failure.atom)).toEqual([db, queue])
+    expect(warmup.errors.map((e) => (e as Error).message)).toEqual(["db down", "queue down"])
+    expect(dependentRuns).toBe(0)
+    expect(scope.controller(fine).state).toBe("resolved")
+  })
+
+  it("folds the warm option into scope.ready", async () => {
+    let runs = 0
+    const config = atom({ name: "config", factory: async () => ++runs })
+    const ext: Lite.Extension = { name: "init", init: async () => {} }
+    const scope = createScope({ extensions: [ext], warm: [config] })
+
+    await scope.ready
+    expect(runs).toBe(1)
+    expect(scope.controller(config).get()).toBe(1)
+    expect(await scope.resolve(config)).toBe(1)
+    expect(runs).toBe(1)
+  })
+
+  it("rejects scope.ready when warmup fails", async () => {
+    const broken = atom({ name: "broken", factory: (): number => { throw new Error("nope") } })
+    const scope = createScope({ warm: [broken] })
+    await expect(scope.ready).rejects.toBeInstanceOf(WarmupError)
+  })
+
+  it("keeps a failed warmup observed when nobody awaits scope.ready", async () => {
+    const unhandled: unknown[] = []
+    const onUnhandled = (reason: unknown) => { unhandled.push(reason) }
+    process.on("unhandledRejection", onUnhandled)
+    try {
+      const broken = atom({ name: "broken", factory: (): number => { throw new Error("nope") } })
+      const fine = atom({ name: "fine", factory: () => 1 })
+      const scope = createScope({ warm: [broken] })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(unhandled).toEqual([])
+      expect(await scope.resolve(fine)).toBe(1)
+      await expect(scope.ready).rejects.toBeInstanceOf(WarmupError)
+    } finally {
+      process.off("unhandledRejection", onUnhandled)
+    }
+  })
+
+  it("follows presets", async () => {
+    const real = atom({ name: "real", factory: (): string => { throw new Error("real") } })
+    const fake = atom({ name: "fake", factory: () => "fake" })
+    const user = atom({ name: "user", deps: { real }, factory: (_ctx, { real }) => real })
+    const scope = createScope({ presets: [preset(real, fake)] })
+
+    await scope.warm([user])
+    expect(scope.controller(fake).state).toBe("resolved")
+    expect(scope.controller(user).get()).toBe("fake")
+  })
+
+  it("rejects cycles before running any factory", async () => {
+    let runs = 0
+    const left: Lite.Atom<number> = atom({
+      name: "left",
+      deps: { right: undefined as unknown as Lite.Atom<number> },
+      factory: () => ++runs,
+    })
+    const right = atom({ name: "right", deps: { left }, factory: () => ++runs })
+    Object.assign(left.deps!, { right })
+
+    await expect(createScope().warm([left])).rejects.toThrow("Circular dependency detected: left -> right -> left")
+    expect(runs).toBe(0)
+  })
+})